@@ -1,23 +1,35 @@
-import { useRef, useMemo, useReducer, useLayoutEffect } from 'react'
-import { globalNouns } from './src/globalNouns'
-import { createNounFromState, type Noun } from './src/nouns'
+import { useRef, useMemo, useReducer, useEffect, useCallback } from 'react'
+import { useSyncExternalStore } from 'use-sync-external-store/shim'
+import { useToggleStore } from './src/provider'
+import { createNounSubscription } from './src/subscription'
+import { currentTransaction } from './src/batch'
+import { createNounFromState, NounSubscribe, type Noun, type NounListener } from './src/nouns'
 import { verbs } from './src/verbs'
+import type { GroupOptions } from './src/globalNouns'
+import type { HistoryOptions } from './src/undo'
+import type { TriState } from './src/triState'
+import { delayedVerbs, limitedVerbs } from './src/timedVerbs'
+import { cancelTimer } from './src/timers'
+import { useStableId } from './src/ids'
+import { registerHotkeys, type HotkeyBinding, type HotkeyOptions } from './src/hotkeys'
+import { lockScroll } from './src/scrollLock'
+import { emitTransition, onTransition, runToggleEffect, type ToggleEffectHandlers, type Transition } from './src/effects'
+import { addDismissableLayer, type DismissableRef, type DismissableOptions } from './src/dismissable'
+import { getCycle, memberKey, type Cycle } from './src/cycle'
 
 export function useToggles(...args: (string | boolean)[]): Record<string, Noun> {
   const namespace = typeof args[0] === 'string' && args[0] ? args[0] : undefined
   const initialValues = (namespace ? args.slice(1) : args) as boolean[]
 
+  const store = useToggleStore()
   const rerender = useReducer(() => ({}), 0)[1]
   const nounOrder = useRef<string[]>([])
-  const unsubscribers = useRef<Map<string, () => void>>(new Map())
+  const id = useStableId()
 
-  useLayoutEffect(() => () => {
-    unsubscribers.current.forEach((unsub, key) => {
-      unsub()
-      if (namespace) globalNouns.release(key)
-    })
-    unsubscribers.current.clear()
-  }, [namespace])
+  // Global nouns - subscribed per noun, snapshotted per subscription so concurrent renders can't tear
+  // and changes to nouns this component never read don't rerender it
+  const subscription = useMemo(() => createNounSubscription(store), [store, namespace])
+  useSyncExternalStore(subscription.subscribe, subscription.getSnapshot, subscription.getSnapshot)
 
   const localNouns = useRef<Record<string, { state: boolean; noun: Noun }>>({})
 
@@ -41,11 +53,8 @@ export function useToggles(...args: (string | boolean)[]): Record<string, Noun>
       // Global noun - use global registry with namespace prefix
       if (namespace) {
         const key = `${namespace}:${prop}`
-        const noun = globalNouns.get(key, initialValue)
-        if (!unsubscribers.current.has(key)) {
-          globalNouns.acquire(key)
-          unsubscribers.current.set(key, globalNouns.subscribe(key, rerender))
-        }
+        const noun = store.get(key, initialValue)
+        subscription.track(key, initialValue)
         return noun
       }
 
@@ -55,25 +64,269 @@ export function useToggles(...args: (string | boolean)[]): Record<string, Noun>
         entry.noun = createNounFromState(
           prop,
           () => entry.state,
-          (val) => { entry.state = val; rerender(); }
+          (val, verb) => {
+            const previous = entry.state
+            entry.state = val
+            const transaction = currentTransaction()
+            if (!transaction) {
+              emitTransition(entry.noun, { previous, value: val, verb })
+              return rerender()
+            }
+            transaction.record(entry, previous, () => { entry.state = previous }, (before, notify) => {
+              if (entry.state === before) return
+              notify(rerender)
+              emitTransition(entry.noun, { previous: before, value: entry.state, verb })
+            })
+          },
+          undefined,
+          { refresh: rerender, id: `${id}-${prop}`, middleware: store.runMiddleware }
         )
         return entry
       })()
       return localNouns.current[prop].noun
     }
-  }), [initialValues, namespace, rerender])
+  }), [initialValues, namespace, rerender, store, subscription, id])
+
+  // pending timed verbs die with the component that owns the local nouns
+  useEffect(() => () => Object.values(localNouns.current).forEach(({ noun }) => cancelTimer(noun)), [])
 
   return nouns
 }
 
 export function useToggle(initial: boolean): Noun {
   const nouns = useToggles(initial)
-  const key = useMemo(() => Math.random().toString(36).substring(2, 8), [])
+  // unique per component, and the same on the server and the client
+  const key = useStableId()
   return nouns[key]
 }
 
-export { type Noun } from './src/nouns'
-export { verbs, type Verbs, type Verb, type VerbName } from './src/verbs'
+// nouns of `namespace` as an exclusive group, plus the name of the member that is currently active
+export function useToggleGroup(namespace: string, options: GroupOptions = {}): { nouns: Record<string, Noun>; active?: string } {
+  const store = useToggleStore()
+  const nouns = useToggles(namespace)
+  const { exclusive, required } = options
+
+  useEffect(() => store.group(namespace, { exclusive, required }), [store, namespace, exclusive, required])
+
+  const subscribe = useCallback((onChange: () => void) => store.onChange(({ key }) => {
+    if (key.startsWith(`${namespace}:`)) onChange()
+  }), [store, namespace])
+  const getActive = useCallback(() => store.getActive(namespace), [store, namespace])
+  const active = useSyncExternalStore(subscribe, getActive, getActive)
+
+  return { nouns, active }
+}
+
+// rerenders when a derived noun's value changes, not on every change to the nouns it reads
+export function useDerived(noun: Noun): Noun {
+  const subscribe = useCallback((onChange: () => void) => {
+    const subscribeNoun = (noun as any)[NounSubscribe] as NounListener | undefined
+    return subscribeNoun ? subscribeNoun(onChange) : () => { }
+  }, [noun])
+  const getValue = useCallback(() => noun.isIndeterminate ? 'indeterminate' : !!noun.isActive, [noun])
+  useSyncExternalStore(subscribe, getValue, getValue)
+  return noun
+}
+
+// undo/redo for a namespace, shared with `store.history(namespace)` outside React
+export function useToggleHistory(namespace: string, options?: HistoryOptions) {
+  const store = useToggleStore()
+  const history = useMemo(() => store.history(namespace, options), [store, namespace])
+  const getSnapshot = useCallback(() => `${history.canUndo} ${history.canRedo}`, [history])
+  useSyncExternalStore(history.subscribe, getSnapshot, getSnapshot)
+
+  return {
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    clear: history.clear
+  }
+}
+
+// a local noun that can also be indeterminate, see `setIndeterminate`
+export function useTriState(initial: TriState = false): Noun {
+  const store = useToggleStore()
+  const rerender = useReducer(() => ({}), 0)[1]
+  const id = useStableId()
+  const entry = useRef<{ state: TriState; noun: Noun }>()
+
+  entry.current ??= (() => {
+    const current = { state: initial, noun: null as any }
+    const update = (state: TriState, verb?: string) => {
+      const previous = current.state
+      current.state = state
+      const transaction = currentTransaction()
+      if (!transaction) {
+        emitTransition(current.noun, { previous: previous === true, value: state === true, verb })
+        return rerender()
+      }
+      transaction.record(current, previous, () => { current.state = previous }, (before, notify) => {
+        if (current.state === before) return
+        notify(rerender)
+        emitTransition(current.noun, { previous: before === true, value: current.state === true, verb })
+      })
+    }
+    current.noun = createNounFromState('triState', () => current.state === true, update, undefined, {
+      refresh: rerender,
+      indeterminate: () => current.state === 'indeterminate',
+      setIndeterminate: () => update('indeterminate'),
+      id,
+      middleware: store.runMiddleware
+    })
+    return current
+  })()
+
+  useEffect(() => () => cancelTimer(entry.current!.noun), [])
+
+  return entry.current.noun
+}
+
+// theme, sort direction, view mode... values are inferred, so `theme.isDark` and `set(theme, 'dark')` type-check
+export function useCycle<V extends string>(namespace: string, name: string, values: readonly V[], initial?: V): Cycle<V> {
+  const store = useToggleStore()
+  const subscription = useMemo(() => createNounSubscription(store), [store])
+  useSyncExternalStore(subscription.subscribe, subscription.getSnapshot, subscription.getSnapshot)
+
+  const valuesKey = values.join(',')
+  const cycle = useMemo(() => getCycle(namespace, name, values, initial, store), [store, namespace, name, valuesKey, initial])
+  values.forEach(value => subscription.track(memberKey(namespace, name, value)))
+  return cycle
+}
+
+// `useToggleHotkeys({ 'mod+k': [toggle, ui.palette], 'g s': [open, ui.sidebar] })` - bound while mounted
+export function useToggleHotkeys(bindings: Record<string, HotkeyBinding>, options: HotkeyOptions = {}): void {
+  const latest = useRef(bindings)
+  latest.current = bindings
+  const combos = Object.keys(bindings).join('\n')
+  const { mac, sequenceTimeout } = options
+
+  useEffect(
+    () => registerHotkeys(combos.split('\n').filter(Boolean), combo => latest.current[combo], { mac, sequenceTimeout }),
+    [combos, mac, sequenceTimeout]
+  )
+}
+
+// closes `noun` on a press outside `refs` (include the trigger), Escape, or focus moving into an iframe
+export function useDismissable(noun: Noun, refs: DismissableRef[], options: DismissableOptions = {}): void {
+  const latest = useRef({ refs, options })
+  latest.current = { refs, options }
+  const active = !!noun.isActive
+
+  useEffect(() => {
+    if (!active) return
+    return addDismissableLayer({ noun, getRefs: () => latest.current.refs, getOptions: () => latest.current.options })
+  }, [noun, active])
+}
+
+// open overlays, bottom first
+export function useOverlayStack(): string[] {
+  const store = useToggleStore()
+  return useSyncExternalStore(store.subscribeOverlays, store.getOverlays, store.getOverlays)
+}
+
+export function useTopmostOverlay(): string | undefined {
+  const stack = useOverlayStack()
+  return stack[stack.length - 1]
+}
+
+export function useScrollLock(active = true): void {
+  useEffect(() => active ? lockScroll() : undefined, [active])
+}
+
+export interface OverlayOptions {
+  zIndexBase?: number // defaults to 1000, each level up adds one
+  closeOnEscape?: boolean // only while nothing opened later sits on top of it, see `useDismissable` - defaults to true
+  lockScroll?: boolean // defaults to true
+}
+
+// registers a namespaced noun as an overlay while the component is mounted
+export function useOverlay(noun: Noun, { zIndexBase = 1000, closeOnEscape = true, lockScroll = true }: OverlayOptions = {}) {
+  const store = useToggleStore()
+  const name = String(noun.name)
+  useEffect(() => store.markOverlay(name), [store, name])
+
+  const stack = useOverlayStack()
+  const depth = stack.indexOf(name) + 1
+  const isTopmost = depth > 0 && depth === stack.length
+  useScrollLock(lockScroll && depth > 0)
+
+  // Escape goes through the same layer stack as `useDismissable`, so a menu open inside a modal
+  // closes before the modal does
+  const escape = useRef(closeOnEscape)
+  escape.current = closeOnEscape
+  const isOpen = depth > 0
+  useEffect(() => {
+    if (!isOpen) return
+    return addDismissableLayer({
+      noun,
+      getRefs: () => [],
+      getOptions: () => ({ escape: escape.current, outsidePress: false, iframeBlur: false })
+    })
+  }, [noun, isOpen])
+
+  return { depth, isTopmost, zIndex: depth ? zIndexBase + depth : undefined }
+}
+
+// side effects on transitions, run after the render that shows the new value - so `onActivate` can focus
+// an input that only renders while the noun is active
+export function useToggleEffect(noun: Noun, handlers: ToggleEffectHandlers): void {
+  const latest = useRef(handlers)
+  latest.current = handlers
+  const pending = useRef<Transition[]>([])
+  const rerender = useReducer(() => ({}), 0)[1]
+  // derived nouns report no transitions of their own - following them rerenders on every change,
+  // which is then spotted by comparing with the value the last render showed
+  const value = !!useDerived(noun).isActive
+  const name = String(noun.name) // derived nouns are often recreated on every render, their names aren't
+  const shown = useRef({ name, value })
+
+  useEffect(() => onTransition(noun, transition => {
+    pending.current.push(transition)
+    rerender()
+  }), [noun])
+
+  useEffect(() => {
+    const transitions = pending.current.splice(0)
+    const previous = shown.current
+    if (!transitions.length && previous.name === name && previous.value !== value) {
+      transitions.push({ previous: previous.value, value, verb: undefined })
+    }
+    shown.current = { name, value }
+    transitions.forEach(transition => runToggleEffect(latest.current, transition))
+  })
+}
+
+export { getNounError, type Noun } from './src/nouns'
+export { getCycle, next, prev, set, type Cycle } from './src/cycle'
+export { setIndeterminate, triStateOf, type TriState } from './src/triState'
+export { type Effect } from './src/optimistic'
+export { select, anyOf, allOf, not } from './src/derived'
+export { type ToggleEffectHandlers, type Transition } from './src/effects'
+export { type DismissableRef, type DismissableOptions } from './src/dismissable'
+export { bindHotkeys, type HotkeyBinding, type HotkeyBindingOptions, type HotkeyOptions } from './src/hotkeys'
+export {
+  getTriggerProps, getPanelProps, getSwitchProps, getToggleButtonProps,
+  type TriggerOptions, type PanelOptions
+} from './src/a11y'
+export {
+  globalNouns, GlobalNounStore, createToggleStore, addMiddleware,
+  type GlobalNounStoreOptions, type GroupOptions, type EvictionStrategy, type ToggleSnapshot, type ToggleChange, type ChangeListener
+} from './src/globalNouns'
+export { TogglesProvider, useToggleStore } from './src/provider'
+export { getToggle, setToggle, subscribeToggle } from './src/imperative'
+export {
+  localStorageAdapter, sessionStorageAdapter,
+  type PersistenceAdapter, type PersistOptions, type Migration
+} from './src/persistence'
+export { type SyncOptions } from './src/sync'
+export { batch } from './src/batch'
+export { syncToggleParams, browserLocation, createMemoryLocation, type UrlSyncOptions, type LocationSource } from './src/url'
+export { closeOnBack, type CloseOnBackOptions } from './src/history'
+export { type ToggleHistory, type HistoryOptions } from './src/undo'
+export { type ToggleMiddleware, type MiddlewareContext } from './src/middleware'
+export { connectDevtools, type DevtoolsOptions, type DevtoolsExtension, type DevtoolsConnection } from './src/devtools'
+export { verbs, defineVerbs, type Verbs, type Verb, type VerbName, type VerbStates, type CustomVerbs } from './src/verbs'
 export const {
   open, close,
   show, hide,
@@ -92,4 +345,41 @@ export const {
   subscribe, unsubscribe,
   toggle
 } = verbs
+export { cancelTimer } from './src/timers'
+export { delayedVerbs, limitedVerbs, type TimedVerb } from './src/timedVerbs'
+export const {
+  openAfter, closeAfter,
+  showAfter, hideAfter,
+  turnOnAfter, turnOffAfter,
+  checkAfter, uncheckAfter,
+  enableAfter, disableAfter,
+  expandAfter, collapseAfter,
+  activateAfter, deactivateAfter,
+  startAfter, endAfter,
+  connectAfter, disconnectAfter,
+  focusAfter, blurAfter,
+  mountAfter, unmountAfter,
+  revealAfter, concealAfter,
+  displayAfter, dismissAfter,
+  lockAfter, unlockAfter,
+  subscribeAfter, unsubscribeAfter,
+  toggleAfter
+} = delayedVerbs
+export const {
+  openFor,
+  showFor,
+  turnOnFor,
+  checkFor,
+  enableFor,
+  expandFor,
+  activateFor,
+  startFor,
+  connectFor,
+  focusFor,
+  mountFor,
+  revealFor,
+  displayFor,
+  lockFor,
+  subscribeFor
+} = limitedVerbs
 export default useToggles
@@ -0,0 +1,65 @@
+import type { MouseEvent } from 'react'
+import { NounId, type Noun } from './nouns'
+import { verbs } from './verbs'
+import { idFromName } from './ids'
+
+type ClickHandler = (event: MouseEvent<HTMLElement>) => void
+
+interface HandlerOptions {
+  onClick?: ClickHandler // runs first - call `event.preventDefault()` to keep the noun as it is
+}
+
+export interface TriggerOptions extends HandlerOptions {
+  popup?: 'dialog' | 'menu' | 'listbox' | 'tree' | 'grid' | true
+}
+
+export interface PanelOptions {
+  role?: 'region' | 'dialog' | 'alertdialog'
+}
+
+// ids are derived from the noun, so a trigger and its panel find each other without any wiring
+const idOf = (noun: Noun): string => (noun as any)?.[NounId] ?? idFromName(String(noun?.name))
+
+const toggleOnClick = (noun: Noun, onClick?: ClickHandler): ClickHandler => event => {
+  onClick?.(event)
+  if (!event.defaultPrevented) verbs.toggle(noun)
+}
+
+// disclosure or dialog button - spread onto a <button> so Enter and Space work natively
+export function getTriggerProps(noun: Noun, { onClick, popup }: TriggerOptions = {}) {
+  return {
+    id: `${idOf(noun)}-trigger`,
+    'aria-expanded': !!noun.isActive,
+    'aria-controls': `${idOf(noun)}-panel`,
+    ...(popup && { 'aria-haspopup': popup }),
+    onClick: toggleOnClick(noun, onClick)
+  }
+}
+
+export function getPanelProps(noun: Noun, { role }: PanelOptions = {}) {
+  return {
+    id: `${idOf(noun)}-panel`,
+    'aria-labelledby': `${idOf(noun)}-trigger`,
+    hidden: !noun.isActive,
+    ...(role && { role }),
+    ...((role === 'dialog' || role === 'alertdialog') && { 'aria-modal': true })
+  }
+}
+
+export function getSwitchProps(noun: Noun, { onClick }: HandlerOptions = {}) {
+  return {
+    id: `${idOf(noun)}-switch`,
+    role: 'switch',
+    'aria-checked': !!noun.isActive,
+    onClick: toggleOnClick(noun, onClick)
+  }
+}
+
+// a button that stays pressed, like bold in a text editor toolbar
+export function getToggleButtonProps(noun: Noun, { onClick }: HandlerOptions = {}) {
+  return {
+    id: `${idOf(noun)}-button`,
+    'aria-pressed': !!noun.isActive,
+    onClick: toggleOnClick(noun, onClick)
+  }
+}
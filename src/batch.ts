@@ -0,0 +1,59 @@
+type Notify = (callback: () => void) => void
+
+interface PendingChange {
+  before: unknown
+  rollback: () => void
+  commit: (before: any, notify: Notify) => void
+}
+
+// collects changes made inside `batch` - state is applied immediately so later reads see it,
+// but side effects and subscriber notifications wait for the commit
+export class Transaction {
+  private changes: Map<object, PendingChange> = new Map()
+
+  // the first change to `key` keeps its `before` value and rollback, later ones only replace the commit
+  record<T>(key: object, before: T, rollback: () => void, commit: (before: T, notify: Notify) => void) {
+    const existing = this.changes.get(key)
+    this.changes.set(key, existing ? { ...existing, commit } : { before, rollback, commit })
+  }
+
+  rollback() {
+    Array.from(this.changes.values()).reverse().forEach(change => change.rollback())
+  }
+
+  mergeInto(parent: Transaction) {
+    this.changes.forEach((change, key) => parent.record(key, change.before, change.rollback, change.commit))
+  }
+
+  commit() {
+    const notifications = new Set<() => void>()
+    this.changes.forEach(change => change.commit(change.before, callback => notifications.add(callback)))
+    notifications.forEach(callback => callback())
+  }
+}
+
+let current: Transaction | null = null
+
+export const currentTransaction = () => current
+
+// run several verbs as one change - subscribers are notified once at the end and nothing sticks if `fn` throws.
+// nested batches commit with their outer batch. only the synchronous part of `fn` is batched
+export function batch<T>(fn: () => T): T {
+  const parent = current
+  const transaction = new Transaction()
+  current = transaction
+
+  let result: T
+  try {
+    result = fn()
+  } catch (error) {
+    current = parent
+    transaction.rollback()
+    throw error
+  }
+
+  current = parent
+  if (parent) transaction.mergeInto(parent)
+  else transaction.commit()
+  return result
+}
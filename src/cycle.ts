@@ -0,0 +1,74 @@
+import { batch } from './batch'
+import { globalNouns, type GlobalNounStore } from './globalNouns'
+import { NounSetter } from './nouns'
+
+// a noun that cycles through more than two values - stored as one boolean noun per value
+// (`settings:theme=dark`), so namespaces, subscriptions, eviction, persistence and sync all apply
+export type Cycle<V extends string> = {
+  readonly name: string
+  readonly value: V
+  readonly values: readonly V[]
+} & { readonly [K in V as `is${Capitalize<K>}`]: boolean }
+
+const CycleSetter = Symbol.for('CycleSetter')
+
+export const memberKey = (namespace: string, name: string, value: string) => `${namespace}:${name}=${value}`
+
+const predicateOf = (value: string) => `is${value[0].toUpperCase()}${value.slice(1)}`
+
+export function getCycle<V extends string>(
+  namespace: string,
+  name: string,
+  values: readonly V[],
+  initial?: V,
+  store: GlobalNounStore = globalNouns
+): Cycle<V> {
+  if (process.env.NODE_ENV !== 'production' && (values.some(value => value.includes(':')) || (initial !== undefined && !values.includes(initial)))) {
+    throw new Error(`Invalid cycle "${namespace}:${name}": values must not contain ":" and must include the initial value`)
+  }
+  // without an initial value nothing is claimed, so reading a cycle imperatively never conflicts with its hook
+  values.forEach(value => store.get(memberKey(namespace, name, value), initial === undefined ? undefined : value === initial))
+  // members are looked up on every read, so an evicted cycle quietly starts over at its initial value
+  const member = (value: string) => store.get(memberKey(namespace, name, value))
+  const current = () => values.find(value => member(value).isActive) ?? initial ?? values[0]
+
+  // one middleware decision, on switching the new value's member on, then every member changes in one
+  // batch - deciding per member could leave none or two of them on
+  const setValue = (value: V, verb: string): void | Promise<void> => {
+    if (!values.includes(value)) {
+      return console.warn(`Cannot set cycle ${namespace}:${name} to "${value}": expected one of ${values.join(', ')}`)
+    }
+    const target = member(value)
+    return store.runMiddleware(
+      { noun: target, name: `${name}=${value}`, namespace, current: !!target.isActive, requested: true, verb },
+      next => {
+        // switching it off instead would leave the cycle without a value
+        if (!next) return
+        batch(() => values.forEach(other => (member(other) as any)[NounSetter](other === value, verb)))
+      }
+    )
+  }
+
+  return new Proxy({}, {
+    get(_, prop: PropertyKey) {
+      if (prop === CycleSetter) return setValue
+      if (prop === 'name') return `${namespace}:${name}`
+      if (prop === 'value') return current()
+      if (prop === 'values') return values
+      if (typeof prop !== 'string') return undefined
+      const value = values.find(candidate => predicateOf(candidate) === prop)
+      return value === undefined ? undefined : current() === value
+    }
+  }) as Cycle<V>
+}
+
+// like verbs, a promise when an async middleware is deciding
+const step = <V extends string>(cycle: Cycle<V>, offset: number, verb: string): void | Promise<void> => {
+  const { values, value } = cycle
+  const index = (values.indexOf(value) + offset + values.length) % values.length
+  return (cycle as any)[CycleSetter](values[index], verb)
+}
+
+export const next = <V extends string>(cycle: Cycle<V>): void | Promise<void> => step(cycle, 1, 'next')
+export const prev = <V extends string>(cycle: Cycle<V>): void | Promise<void> => step(cycle, -1, 'prev')
+export const set = <V extends string>(cycle: Cycle<V>, value: V): void | Promise<void> => (cycle as any)[CycleSetter](value, 'set')
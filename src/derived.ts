@@ -0,0 +1,24 @@
+import { createNounFromState, NounSubscribe, type Noun, type NounListener } from './nouns'
+
+const valueOf = (noun: Noun) => !!noun.isActive
+
+// read-only noun whose value is computed from other nouns, in any namespace - verbs on it warn
+// instead of changing anything. sources without a store (local nouns) are read but not followed
+export function select(sources: Noun[], selector: (...values: boolean[]) => boolean, name = 'select'): Noun {
+  const subscribe = subscribeAll(sources)
+  return createNounFromState(labelOf(name, sources), () => selector(...sources.map(valueOf)), null, undefined, { subscribe })
+}
+
+export const labelOf = (name: string, sources: Noun[]) => `${name}(${sources.map(source => String(source.name)).join(', ')})`
+
+// follows every source that can be followed
+export const subscribeAll = (sources: Noun[]): NounListener => listener => {
+  const unsubscribers = sources
+    .map(source => (source as any)[NounSubscribe] as NounListener | undefined)
+    .map(subscribeSource => subscribeSource?.(listener))
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe?.())
+}
+
+export const anyOf = (...sources: Noun[]): Noun => select(sources, (...values) => values.some(Boolean), 'anyOf')
+export const allOf = (...sources: Noun[]): Noun => select(sources, (...values) => values.every(Boolean), 'allOf')
+export const not = (source: Noun): Noun => select([source], value => !value, 'not')
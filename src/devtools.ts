@@ -0,0 +1,86 @@
+import { globalNouns, type GlobalNounStore, type ToggleSnapshot } from './globalNouns'
+
+// the subset of the Redux DevTools extension protocol used here
+export interface DevtoolsMessage {
+  type: string
+  payload?: { type: string }
+  state?: string
+}
+
+export interface DevtoolsConnection {
+  init(state: ToggleSnapshot): void
+  send(action: { type: string; [key: string]: unknown }, state: ToggleSnapshot): void
+  subscribe(listener: (message: DevtoolsMessage) => void): (() => void) | void
+  unsubscribe?(): void
+}
+
+export interface DevtoolsExtension {
+  connect(options: { name?: string }): DevtoolsConnection
+}
+
+export interface DevtoolsOptions {
+  name?: string // instance name shown in the extension
+  extension?: DevtoolsExtension // defaults to window.__REDUX_DEVTOOLS_EXTENSION__
+}
+
+const findExtension = (): DevtoolsExtension | undefined =>
+  typeof window !== 'undefined' ? (window as any).__REDUX_DEVTOOLS_EXTENSION__ : undefined
+
+// reports every change in `store` to Redux DevTools and lets the extension time-travel it
+export function connectDevtools(store: GlobalNounStore = globalNouns, options: DevtoolsOptions = {}): () => void {
+  const extension = options.extension ?? findExtension()
+  if (!extension) return () => { }
+
+  const connection = extension.connect({ name: options.name ?? 'toggles' })
+  let initialState = store.snapshot()
+  let travelling = false
+  connection.init(initialState)
+
+  const stopListening = store.onChange(({ key, previous, value, verb }) => {
+    if (travelling) return
+    connection.send({ type: `${verb ?? 'set'} ${key}`, key, previous, value, verb }, store.snapshot())
+  })
+
+  const travel = (state: ToggleSnapshot | string) => {
+    const target: ToggleSnapshot = typeof state === 'string' ? JSON.parse(state) : state
+    // nouns created after that snapshot go back to how they started, or the result never existed
+    const values: ToggleSnapshot = {}
+    Object.keys(store.snapshot()).forEach(name => {
+      values[name] = store.getInitialValue(name) ?? false
+    })
+    travelling = true
+    try {
+      store.hydrate({ ...values, ...target })
+    } finally {
+      travelling = false
+    }
+  }
+
+  const stopSubscription = connection.subscribe(message => {
+    if (message.type !== 'DISPATCH' || !message.payload) return
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state) travel(message.state)
+        break
+      case 'RESET':
+        travel(initialState)
+        connection.init(store.snapshot())
+        break
+      case 'COMMIT':
+        initialState = store.snapshot()
+        connection.init(initialState)
+        break
+      case 'ROLLBACK':
+        if (message.state) travel(message.state)
+        connection.init(store.snapshot())
+        break
+    }
+  })
+
+  return () => {
+    stopListening()
+    if (typeof stopSubscription === 'function') stopSubscription()
+    else connection.unsubscribe?.()
+  }
+}
@@ -0,0 +1,73 @@
+import type { Noun } from './nouns'
+import { verbs, type Verb } from './verbs'
+
+export type DismissableRef = { current: Element | null } | Element | null | undefined
+
+export interface DismissableOptions {
+  verb?: Verb // defaults to `close`
+  outsidePress?: boolean // pointer down outside every ref, defaults to true
+  escape?: boolean // defaults to true
+  iframeBlur?: boolean // focus moving into an iframe outside the refs, defaults to true
+}
+
+interface Layer {
+  noun: Noun
+  getRefs: () => DismissableRef[]
+  getOptions: () => DismissableOptions
+}
+
+// open layers in the order they opened - only the topmost one is dismissed, so a menu inside a
+// dialog closes before the dialog does, and pressing inside a portaled submenu keeps its parent open
+const layers: Layer[] = []
+
+const elementOf = (ref: DismissableRef) => ref && ('current' in ref ? ref.current : ref)
+
+const isInside = (layer: Layer, target: EventTarget | null) =>
+  target instanceof Node && layer.getRefs().some(ref => elementOf(ref)?.contains(target))
+
+const dismiss = (layer: Layer) => {
+  const verb = layer.getOptions().verb ?? verbs.close
+  verb(layer.noun)
+}
+
+const topmost = () => layers[layers.length - 1]
+
+const onPointerDown = (event: Event) => {
+  const layer = topmost()
+  if (!layer || layer.getOptions().outsidePress === false || isInside(layer, event.target)) return
+  dismiss(layer)
+}
+
+const onKeyDown = (event: KeyboardEvent) => {
+  const layer = topmost()
+  if (event.key !== 'Escape' || event.defaultPrevented || !layer || layer.getOptions().escape === false) return
+  event.preventDefault()
+  dismiss(layer)
+}
+
+// the window loses focus both to other apps and to iframes, only the latter is an outside interaction
+const onWindowBlur = () => {
+  const layer = topmost()
+  const active = document.activeElement
+  if (!layer || layer.getOptions().iframeBlur === false || !(active instanceof HTMLIFrameElement) || isInside(layer, active)) return
+  dismiss(layer)
+}
+
+export function addDismissableLayer(layer: Layer): () => void {
+  if (!layers.length) {
+    document.addEventListener('pointerdown', onPointerDown, true)
+    document.addEventListener('keydown', onKeyDown)
+    window.addEventListener('blur', onWindowBlur)
+  }
+  layers.push(layer)
+
+  return () => {
+    const index = layers.indexOf(layer)
+    if (index === -1) return
+    layers.splice(index, 1)
+    if (layers.length) return
+    document.removeEventListener('pointerdown', onPointerDown, true)
+    document.removeEventListener('keydown', onKeyDown)
+    window.removeEventListener('blur', onWindowBlur)
+  }
+}
@@ -0,0 +1,38 @@
+import type { Noun } from './nouns'
+
+export interface Transition {
+  previous: boolean
+  value: boolean
+  verb?: string // undefined for changes that didn't come from a verb, e.g. hydration or setToggle
+}
+
+export interface ToggleEffectHandlers {
+  onActivate?: (transition: Transition) => void
+  onDeactivate?: (transition: Transition) => void
+  onChange?: (transition: Transition) => void
+}
+
+type TransitionListener = (transition: Transition) => void
+
+// per-noun transition listeners - fed by the store for namespaced nouns and by `useToggles` for local ones
+const listeners = new WeakMap<object, Set<TransitionListener>>()
+
+export function onTransition(noun: Noun, listener: TransitionListener): () => void {
+  const nounListeners = listeners.get(noun) ?? new Set()
+  listeners.set(noun, nounListeners)
+  nounListeners.add(listener)
+  return () => { nounListeners.delete(listener) }
+}
+
+// only real transitions - setting a noun to the value it already has is not one
+export function emitTransition(noun: Noun, transition: Transition) {
+  if (transition.previous === transition.value) return
+  listeners.get(noun)?.forEach(listener => listener(transition))
+}
+
+export function runToggleEffect(handlers: ToggleEffectHandlers, transition: Transition) {
+  if (transition.previous === transition.value) return
+  if (transition.value) handlers.onActivate?.(transition)
+  else handlers.onDeactivate?.(transition)
+  handlers.onChange?.(transition)
+}
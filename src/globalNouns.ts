@@ -1,4 +1,11 @@
-import { Noun, createNounFromState } from './nouns'
+import { Noun, createNounFromState, setNounValue } from './nouns'
+import { batch, currentTransaction } from './batch'
+import { cancelTimer } from './timers'
+import { emitTransition, runToggleEffect, type ToggleEffectHandlers } from './effects'
+import { readPersisted, writePersisted, type PersistOptions } from './persistence'
+import { createMiddlewareRegistry, type MiddlewareRunner, type ToggleMiddleware } from './middleware'
+import { createHistory, type HistoryOptions, type ToggleHistory } from './undo'
+import { createSourceId, createSyncTransport, shouldSync, type SyncMessage, type SyncOptions, type SyncTransport } from './sync'
 
 interface GlobalToggleEntry {
   noun: Noun
@@ -6,24 +13,90 @@ interface GlobalToggleEntry {
   subscribers: Set<() => void>
   refCount: number
   lastAccessed: number
+  version: number // the store version of the noun's last change
+  renderedAt: number // `renders` when a component last read it while rendering
   initialValue?: boolean
   initializationStack?: string
 }
 
+// 'ttl' drops unused nouns after `ttl` ms, 'lru' keeps at most `maxEntries`, 'never' keeps everything
+export type EvictionStrategy = 'never' | 'ttl' | 'lru'
+
+export interface GlobalNounStoreOptions {
+  server?: boolean // never start the cleanup timer - for short-lived per-request stores during SSR
+  eviction?: EvictionStrategy // defaults to 'ttl'
+  ttl?: number // defaults to 5 minutes
+  cleanupInterval?: number // how often the 'ttl' sweep runs, defaults to every minute
+  maxEntries?: number // 'lru' only - without it nothing is evicted
+  onEvict?: (name: string, state: boolean) => void
+}
+
+export interface GroupOptions {
+  exclusive?: boolean // activating one noun deactivates the rest of the namespace, defaults to true
+  required?: boolean // the last active noun can't be deactivated
+}
+
+export interface ToggleChange {
+  key: string
+  previous: boolean
+  value: boolean
+  verb?: string // the verb that caused the change, if it came from one
+}
+
+export type ChangeListener = (change: ToggleChange) => void
+
+// plain `key -> state` map, safe to JSON.stringify into server HTML
+export type ToggleSnapshot = Record<string, boolean>
+
+// thrown to roll back a group change when a middleware won't let a sibling go off
+const siblingKeptOn = new Error('sibling kept on')
+
+// keys are `${namespace}:${noun}` - namespaces may contain colons, noun names don't
+const splitKey = (key: string) => {
+  const index = key.lastIndexOf(':')
+  return { namespace: key.slice(0, index), noun: key.slice(index + 1) }
+}
+
 export class GlobalNounStore {
   private toggles: Map<string, GlobalToggleEntry> = new Map()
+  private persisted: Map<string, { options: PersistOptions; values: Record<string, boolean> }> = new Map()
+  private syncing: { options: SyncOptions; transport: SyncTransport } | null = null
+  private readonly sourceId = createSourceId()
+  private version = 0
+  private renders = 0 // counts reads from rendering components, see `markRendered`
+  private lastCommit = 0 // `renders` when a component last committed and subscribed
+  private listeners: Set<ChangeListener> = new Set()
+  private readonly middleware = createMiddlewareRegistry()
+  private groups: Map<string, GroupOptions[]> = new Map()
+  private histories: Map<string, ToggleHistory> = new Map()
+  private overlays: Map<string, number> = new Map() // flagged noun → how many components flag it
+  private overlayStack: string[] = []
+  private overlayListeners: Set<() => void> = new Set()
   private cleanupInterval: NodeJS.Timeout | null = null
-  private readonly TTL = 5 * 60 * 1000 // 5 minutes Time To Live
+  private readonly TTL: number // Time To Live
+  private readonly cleanupEvery: number
+  private readonly eviction: EvictionStrategy
+  private readonly maxEntries: number
+  private readonly onEvict?: (name: string, state: boolean) => void
+  private readonly server: boolean
 
-  constructor() {
+  constructor(options: GlobalNounStoreOptions = {}) {
+    this.server = options.server ?? false
+    this.eviction = options.eviction ?? 'ttl'
+    this.TTL = options.ttl ?? 5 * 60 * 1000 // 5 minutes
+    this.cleanupEvery = options.cleanupInterval ?? 60 * 1000 // every minute
+    this.maxEntries = options.maxEntries ?? Infinity
+    this.onEvict = options.onEvict
     this.startCleanupTimer()
   }
 
   private startCleanupTimer() {
-    if (typeof setInterval !== 'undefined') {
+    if (!this.server && this.eviction === 'ttl' && typeof setInterval !== 'undefined') {
       this.cleanupInterval = setInterval(() => {
         this.cleanup()
-      }, 60 * 1000) // Run cleanup every minute
+      }, this.cleanupEvery)
+      // under Node the sweep alone must not keep the process (a test runner, an SSR worker) alive
+      this.cleanupInterval.unref?.()
     }
   }
 
@@ -38,36 +111,50 @@ export class GlobalNounStore {
       }
     })
 
-    toDelete.forEach(name => this.toggles.delete(name))
+    toDelete.forEach(name => this.evict(name))
   }
 
-  get(name: string, initialValue = false): Noun {
+  // drop the least recently accessed unused nouns until the store fits `maxEntries`
+  private evictLeastRecentlyUsed(keep?: string) {
+    if (this.eviction !== 'lru' || this.toggles.size <= this.maxEntries) return
+
+    const candidates: [string, GlobalToggleEntry][] = []
+    this.toggles.forEach((entry, name) => {
+      // a component that read the noun during a render that hasn't committed yet holds no ref so far
+      const rendering = entry.renderedAt > this.lastCommit
+      if (entry.refCount === 0 && !rendering && name !== keep) candidates.push([name, entry])
+    })
+    candidates.sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed)
+
+    const excess = this.toggles.size - this.maxEntries
+    candidates.slice(0, excess).forEach(([name]) => this.evict(name))
+  }
+
+  private evict(name: string) {
+    const entry = this.toggles.get(name)
+    if (!entry) return
+    this.toggles.delete(name)
+    cancelTimer(entry.noun)
+    this.overlays.delete(name)
+    this.updateOverlay(name, false)
+    this.onEvict?.(name, entry.state)
+  }
+
+  // without an initial value the noun starts off (or at its persisted value) and isn't checked for conflicts
+  get(name: string, initialValue?: boolean): Noun {
     let entry = this.toggles.get(name)
     
     if (!entry) {
-      entry = {
-        noun: null as any,
-        state: initialValue,
-        subscribers: new Set(),
-        refCount: 0,
-        lastAccessed: Date.now(),
-        initialValue: initialValue,
-        initializationStack: new Error().stack
-      }
-
-      entry!.noun = createNounFromState(
-        name,
-        () => entry!.state,
-        (newState: boolean) => {
-          entry!.state = newState
-          entry!.subscribers.forEach(callback => callback())
-        }
-      )
-
-      this.toggles.set(name, entry)
+      entry = this.create(name, this.restore(name) ?? initialValue ?? false, initialValue)
+    } else if (initialValue === undefined) {
+      // nothing to compare against
+    } else if (entry.initialValue === undefined) {
+      // hydrated and imperatively created entries adopt the first initial value they are requested with
+      entry.initialValue = initialValue
+      entry.initializationStack = new Error().stack
     } else {
       // Check for initial value conflict
-      if (entry.initialValue !== undefined && entry.initialValue !== initialValue) {
+      if (entry.initialValue !== initialValue) {
         console.error(
           `Global toggle "${name}" initialized with conflicting values!\n` +
           `First initialization: ${entry.initialValue}\n` +
@@ -82,6 +169,309 @@ export class GlobalNounStore {
     return entry.noun
   }
 
+  private create(name: string, state: boolean, initialValue?: boolean): GlobalToggleEntry {
+    const entry: GlobalToggleEntry = {
+      noun: null as any,
+      state,
+      subscribers: new Set(),
+      refCount: 0,
+      lastAccessed: Date.now(),
+      version: ++this.version,
+      renderedAt: 0,
+      initialValue,
+      initializationStack: initialValue === undefined ? undefined : new Error().stack
+    }
+
+    entry.noun = createNounFromState(
+      name,
+      () => entry.state,
+      (newState: boolean, verb?: string) => this.setState(name, entry, newState, verb),
+      splitKey(name).namespace,
+      {
+        subscribe: listener => {
+          // keeps the entry alive for as long as something derived from it is listening
+          this.acquire(name)
+          entry.subscribers.add(listener)
+          return () => {
+            entry.subscribers.delete(listener)
+            this.release(name)
+          }
+        },
+        refresh: () => {
+          entry.version = ++this.version
+          entry.subscribers.forEach(subscriber => subscriber())
+        },
+        middleware: this.runMiddleware
+      }
+    )
+
+    this.toggles.set(name, entry)
+    this.evictLeastRecentlyUsed(name)
+    return entry
+  }
+
+  private setState(name: string, entry: GlobalToggleEntry, state: boolean, verb?: string) {
+    const { namespace } = splitKey(name)
+    const group = this.groups.get(namespace)?.slice(-1)[0]
+    if (group && state !== entry.state) {
+      const siblings: [string, GlobalToggleEntry][] = []
+      this.toggles.forEach((sibling, siblingName) => {
+        if (sibling !== entry && sibling.state && splitKey(siblingName).namespace === namespace) siblings.push([siblingName, sibling])
+      })
+      if (!state && group.required && !siblings.length) return
+      if (state && (group.exclusive ?? true)) {
+        // siblings go off through middleware like any other change, in the same batch so subscribers
+        // never see two active members. one a middleware keeps on right away keeps this one off instead -
+        // async middleware decides later, until then both are on
+        try {
+          batch(() => {
+            this.applyState(name, entry, state, verb)
+            siblings.forEach(([, sibling]) => {
+              const closing = setNounValue(sibling.noun, false)
+              if (!(closing instanceof Promise) && sibling.state) throw siblingKeptOn
+            })
+          })
+        } catch (error) {
+          if (error !== siblingKeptOn) throw error
+        }
+        return
+      }
+    }
+    this.applyState(name, entry, state, verb)
+  }
+
+  private applyState(name: string, entry: GlobalToggleEntry, state: boolean, verb?: string) {
+    const previous = entry.state
+    entry.state = state
+
+    const transaction = currentTransaction()
+    if (!transaction) return this.commit(name, entry, previous, verb)
+    transaction.record(entry, previous, () => { entry.state = previous }, (before, notify) => {
+      if (entry.state !== before) this.commit(name, entry, before, verb, notify)
+    })
+  }
+
+  private commit(name: string, entry: GlobalToggleEntry, previous: boolean, verb?: string, schedule?: (callback: () => void) => void) {
+    this.save(name, entry.state)
+    this.publish(name, entry.state)
+    this.notify(name, entry, previous, verb, schedule)
+  }
+
+  private notify(name: string, entry: GlobalToggleEntry, previous: boolean, verb?: string, schedule = (callback: () => void) => callback()) {
+    entry.version = ++this.version
+    if (this.overlays.has(name)) this.updateOverlay(name, entry.state)
+    entry.subscribers.forEach(schedule)
+    // a verb that asks for the value the noun already has still rerenders, but it isn't a change
+    if (previous === entry.state) return
+    emitTransition(entry.noun, { previous, value: entry.state, verb })
+    this.listeners.forEach(listener => listener({ key: name, previous, value: entry.state, verb }))
+  }
+
+  // middleware for this store's nouns, and the local nouns of components rendered with it -
+  // namespaced middleware only sees that namespace
+  use(middleware: ToggleMiddleware, options?: { namespace?: string }): () => void {
+    return this.middleware.use(middleware, options)
+  }
+
+  // for nouns created outside the store that still belong to it, like `useToggles()` local nouns
+  runMiddleware: MiddlewareRunner = (context, apply) => this.middleware.run(context, apply)
+
+  // listen to every change in the store, whichever noun and whatever caused it
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  // lifecycle callbacks for one noun, called once per real transition with the previous value and the verb
+  watch(name: string, handlers: ToggleEffectHandlers): () => void {
+    return this.onChange(change => {
+      if (change.key === name) runToggleEffect(handlers, change)
+    })
+  }
+
+  // the value the noun was first asked for with, undefined until something passes one
+  getInitialValue(name: string): boolean | undefined {
+    return this.toggles.get(name)?.initialValue
+  }
+
+  // bumped on every change - with a name, the version of that noun's last change (or its creation)
+  getVersion = (name?: string): number => name === undefined ? this.version : this.toggles.get(name)?.version ?? 0
+
+  private restore(name: string): boolean | undefined {
+    const { namespace, noun } = splitKey(name)
+    return this.persisted.get(namespace)?.values[noun]
+  }
+
+  private save(name: string, state: boolean) {
+    const { namespace, noun } = splitKey(name)
+    const persisted = this.persisted.get(namespace)
+    if (!persisted) return
+    persisted.values[noun] = state
+    writePersisted(namespace, persisted.options, noun, state)
+  }
+
+  private publish(name: string, state: boolean) {
+    if (!this.syncing || !shouldSync(splitKey(name).namespace, this.syncing.options)) return
+    this.syncing.transport.post({ source: this.sourceId, key: name, state })
+  }
+
+  private receive(message: SyncMessage) {
+    if (message.source === this.sourceId || !this.syncing) return
+    if (!shouldSync(splitKey(message.key).namespace, this.syncing.options)) return
+    const entry = this.toggles.get(message.key)
+    // nouns nobody in this tab has used yet pick the value up from persistence, if any
+    if (!entry || entry.state === message.state) return
+
+    // apply without publishing, otherwise the tabs would echo the change back and forth
+    const { syncing } = this
+    this.syncing = null
+    try {
+      this.setState(message.key, entry, message.state)
+    } finally {
+      this.syncing = syncing
+    }
+  }
+
+  // opt into cross-tab synchronization through BroadcastChannel, falling back to storage events
+  sync(options: SyncOptions = {}): () => void {
+    this.syncing?.transport.close()
+    const transport = createSyncTransport(options.channel ?? 'toggles', message => this.receive(message))
+    if (!transport) {
+      this.syncing = null
+      return () => { }
+    }
+
+    const syncing = { options, transport }
+    this.syncing = syncing
+    return () => {
+      if (this.syncing !== syncing) return
+      transport.close()
+      this.syncing = null
+    }
+  }
+
+  // make a namespace behave like a radio group or single-open accordion
+  group(namespace: string, options: GroupOptions = {}): () => void {
+    // several components may declare the same group, the latest registration wins until it's removed
+    const registrations = this.groups.get(namespace) ?? []
+    this.groups.set(namespace, [...registrations, options])
+    return () => {
+      const remaining = (this.groups.get(namespace) ?? []).filter(registration => registration !== options)
+      if (remaining.length) this.groups.set(namespace, remaining)
+      else this.groups.delete(namespace)
+    }
+  }
+
+  // name of the first active noun in a namespace
+  getActive(namespace: string): string | undefined {
+    let active: string | undefined
+    this.toggles.forEach((entry, name) => {
+      const key = splitKey(name)
+      if (active === undefined && entry.state && key.namespace === namespace) active = key.noun
+    })
+    return active
+  }
+
+  // flag a noun as an overlay - open overlays are stacked in the order they opened. flags are counted,
+  // so the noun leaves the stack once every component that flagged it has let go
+  markOverlay(name: string): () => void {
+    const entry = this.toggles.get(name)
+    if (!entry) {
+      throw new Error(`Toggle "${name}" not found in global nouns`)
+    }
+    this.overlays.set(name, (this.overlays.get(name) ?? 0) + 1)
+    if (entry.state) this.updateOverlay(name, true)
+
+    let marked = true
+    return () => {
+      if (!marked) return
+      marked = false
+      const count = (this.overlays.get(name) ?? 1) - 1
+      if (count > 0) return void this.overlays.set(name, count)
+      this.overlays.delete(name)
+      this.updateOverlay(name, false)
+    }
+  }
+
+  // open overlays, bottom first - a new array whenever it changes, for useSyncExternalStore
+  getOverlays = (): string[] => this.overlayStack
+
+  subscribeOverlays = (listener: () => void): (() => void) => {
+    this.overlayListeners.add(listener)
+    return () => { this.overlayListeners.delete(listener) }
+  }
+
+  private updateOverlay(name: string, open: boolean) {
+    const stack = this.overlayStack.filter(key => key !== name)
+    if (open) stack.push(name)
+    if (stack.length === this.overlayStack.length && stack.every((key, i) => key === this.overlayStack[i])) return
+    this.overlayStack = stack
+    this.overlayListeners.forEach(listener => listener())
+  }
+
+  // opt a namespace into undo/redo - later calls get the same history, options only apply to the first
+  history(namespace: string, options?: HistoryOptions): ToggleHistory {
+    let history = this.histories.get(namespace)
+    if (!history) {
+      history = createHistory(this, namespace, options, () => this.histories.delete(namespace))
+      this.histories.set(namespace, history)
+    }
+    return history
+  }
+
+  // opt a namespace into persistence - existing nouns pick up their saved values immediately
+  persist(namespace: string, options: PersistOptions): () => void {
+    const values = readPersisted(namespace, options)
+    this.persisted.set(namespace, { options, values })
+
+    this.toggles.forEach((entry, name) => {
+      const saved = this.restore(name)
+      if (saved === undefined || saved === entry.state) return
+      entry.state = saved
+      this.notify(name, entry, !saved)
+    })
+
+    return () => {
+      if (this.persisted.get(namespace)?.options === options) this.persisted.delete(namespace)
+    }
+  }
+
+  snapshot(): ToggleSnapshot {
+    const snapshot: ToggleSnapshot = {}
+    this.toggles.forEach((entry, name) => { snapshot[name] = entry.state })
+    return snapshot
+  }
+
+  // JSON for inlining into a <script> tag - `<` is escaped so state can't close the tag early
+  serialize(): string {
+    return JSON.stringify(this.snapshot()).replace(/</g, '\\u003c')
+  }
+
+  // seed the store from a server snapshot - call before the first client render
+  hydrate(snapshot: ToggleSnapshot | string): void {
+    const values: ToggleSnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot
+    Object.entries(values).forEach(([name, state]) => {
+      if (typeof state !== 'boolean') return
+      const entry = this.toggles.get(name)
+      if (!entry) return void this.create(name, state)
+      if (entry.state === state) return
+      entry.state = state
+      this.notify(name, entry, !state)
+    })
+  }
+
+  // a component read the noun while rendering - until that render commits (or another one does,
+  // if it was thrown away) the noun is kept even though nothing holds a ref to it yet
+  markRendered(name: string): void {
+    const entry = this.toggles.get(name)
+    if (entry) entry.renderedAt = ++this.renders
+  }
+
+  // a component committed and subscribed to what it read
+  markCommitted(): void {
+    this.lastCommit = this.renders
+  }
+
   acquire(name: string): void {
     const entry = this.toggles.get(name)
     if (entry) {
@@ -93,6 +483,10 @@ export class GlobalNounStore {
     const entry = this.toggles.get(name)
     if (entry) {
       entry.refCount = Math.max(0, entry.refCount - 1)
+      entry.lastAccessed = Date.now()
+      // the last component showing the noun is gone, so is whatever it scheduled
+      if (entry.refCount === 0) cancelTimer(entry.noun)
+      this.evictLeastRecentlyUsed()
     }
   }
 
@@ -111,7 +505,18 @@ export class GlobalNounStore {
       clearInterval(this.cleanupInterval)
       this.cleanupInterval = null
     }
+    this.toggles.forEach(entry => cancelTimer(entry.noun))
     this.toggles.clear()
+    this.persisted.clear()
+    this.syncing?.transport.close()
+    this.syncing = null
+    this.listeners.clear()
+    this.middleware.clear()
+    this.groups.clear()
+    this.histories.clear()
+    this.overlays.clear()
+    this.overlayStack = []
+    this.overlayListeners.clear()
     this.startCleanupTimer()
   }
 
@@ -120,7 +525,18 @@ export class GlobalNounStore {
       clearInterval(this.cleanupInterval)
       this.cleanupInterval = null
     }
+    this.toggles.forEach(entry => cancelTimer(entry.noun))
     this.toggles.clear()
+    this.persisted.clear()
+    this.syncing?.transport.close()
+    this.syncing = null
+    this.listeners.clear()
+    this.middleware.clear()
+    this.groups.clear()
+    this.histories.clear()
+    this.overlays.clear()
+    this.overlayStack = []
+    this.overlayListeners.clear()
   }
 
   has(name: string): boolean {
@@ -128,4 +544,9 @@ export class GlobalNounStore {
   }
 }
 
-export const globalNouns = new GlobalNounStore()
\ No newline at end of file
+export const globalNouns = new GlobalNounStore()
+
+export const createToggleStore = (options?: GlobalNounStoreOptions) => new GlobalNounStore(options)
+
+// middleware for the default store - other stores take theirs through `store.use`
+export const addMiddleware = (middleware: ToggleMiddleware, options?: { namespace?: string }) => globalNouns.use(middleware, options)
\ No newline at end of file
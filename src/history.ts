@@ -0,0 +1,74 @@
+import { globalNouns, type GlobalNounStore } from './globalNouns'
+import { setNounValue } from './nouns'
+import { browserLocation, type LocationSource } from './url'
+
+export interface CloseOnBackOptions {
+  nouns: string[] // namespaced keys of the overlays Back should close
+  location?: LocationSource
+  store?: GlobalNounStore
+}
+
+const openingVerbs = ['open', 'show', 'display']
+
+let instances = 0
+
+// opening a flagged noun with a verb pushes a history entry, so Back closes the most recently opened one
+// instead of leaving the page. closing it any other way removes that entry again
+export function closeOnBack(options: CloseOnBackOptions): () => void {
+  const { store = globalNouns, location = browserLocation } = options
+  const flagged = new Set(options.nouns)
+  const stack: string[] = [] // opened nouns, most recent last - one history entry each
+  let ownPops = 0 // pops caused by our own `back()` calls, not the user
+
+  // our entries say how many of our nouns were open when they were pushed, so a pop can be told
+  // apart from one that left an unrelated entry, or went forward
+  const id = ++instances
+  const depthOf = (state: unknown) => {
+    const marker = (state as { closeOnBack?: { id: number; depth: number } } | null)?.closeOnBack
+    return marker?.id === id ? marker.depth : 0
+  }
+  const pushEntry = (key: string) => {
+    stack.push(key)
+    store.acquire(key)
+    location.push(location.getSearch(), { closeOnBack: { id, depth: stack.length } })
+  }
+
+  const stopListening = store.onChange(({ key, value, verb }) => {
+    if (!flagged.has(key)) return
+    const index = stack.indexOf(key)
+
+    if (value && index === -1 && verb && openingVerbs.includes(verb)) {
+      pushEntry(key)
+    } else if (!value && index !== -1) {
+      stack.splice(index, 1)
+      store.release(key)
+      ownPops++
+      location.back()
+    }
+  })
+
+  // the noun leaves the stack before it is closed, so closing it doesn't go back a second time -
+  // if a middleware keeps it open, the entry is put back so the next Back tries again
+  const closeFromBack = (key: string) => {
+    const noun = store.get(key)
+    const settle = () => {
+      if (noun.isActive && !stack.includes(key)) pushEntry(key)
+      store.release(key)
+    }
+    const closing = setNounValue(noun, false)
+    if (closing instanceof Promise) closing.then(settle, settle)
+    else settle()
+  }
+
+  const stopLocation = location.listen(() => {
+    if (ownPops > 0) return void ownPops--
+    // everything above the entry we landed on, most recent first - a Back press usually pops one
+    stack.splice(depthOf(location.getState())).reverse().forEach(closeFromBack)
+  })
+
+  return () => {
+    stopListening()
+    stopLocation()
+    stack.splice(0).forEach(key => store.release(key))
+  }
+}
@@ -0,0 +1,150 @@
+import type { Noun } from './nouns'
+import type { Verb } from './verbs'
+
+export interface HotkeyBindingOptions {
+  allowInInputs?: boolean // fire while typing in inputs, textareas, selects and contenteditable elements
+}
+
+export type HotkeyBinding = [verb: Verb, noun: Noun, options?: HotkeyBindingOptions]
+
+export interface HotkeyOptions {
+  mac?: boolean // whether "mod" means Cmd, detected from the browser by default
+  sequenceTimeout?: number // how long to wait for the next key of a sequence like "g i", defaults to 1000ms
+}
+
+interface Entry {
+  combo: string // as written, for warnings
+  sequence: string[] // normalized, e.g. ['ctrl+k'] or ['g', 'i']
+  allowsInputs: () => boolean // read when the key is pressed, so the option can change between renders
+  run: () => void
+}
+
+interface Registration {
+  entries: Entry[]
+  sequenceTimeout: number
+}
+
+const modifierKeys = { alt: 'altKey', ctrl: 'ctrlKey', meta: 'metaKey', shift: 'shiftKey' } as const
+const modifiers = Object.keys(modifierKeys) as (keyof typeof modifierKeys)[]
+const keyAliases: Record<string, string> = { ' ': 'space', esc: 'escape', cmd: 'meta', command: 'meta', control: 'ctrl', option: 'alt', up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright' }
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent)
+
+// shift is part of symbols like "?", so it only counts for letters and named keys
+const normalize = (pressed: string[], key: string) => {
+  const ignoreShift = key.length === 1 && !/[a-z]/.test(key)
+  const mods = modifiers.filter(mod => pressed.includes(mod) && !(mod === 'shift' && ignoreShift))
+  return [...mods, key].join('+')
+}
+
+const parseCombo = (combo: string, mac: boolean) => {
+  const parts = combo.toLowerCase().split('+').map(part => part.trim()).map(part => keyAliases[part] ?? part)
+  const key = parts.pop() || '+'
+  return normalize(parts.map(part => part === 'mod' ? (mac ? 'meta' : 'ctrl') : part), key)
+}
+
+const parseSequence = (combo: string, mac: boolean) => combo.trim().split(/\s+/).map(step => parseCombo(step, mac))
+
+// on macOS Option changes the character typed (Option+S is "ß"), so with Alt held letters and
+// digits come from the physical key instead
+const keyOf = (event: KeyboardEvent) => {
+  const physical = event.altKey && /^(?:Key([A-Z])|Digit([0-9]))$/.exec(event.code ?? '')
+  return physical ? (physical[1] ?? physical[2]).toLowerCase() : event.key.toLowerCase()
+}
+
+const comboOf = (event: KeyboardEvent) => {
+  const key = keyOf(event)
+  const pressed = modifiers.filter(mod => event[modifierKeys[mod]])
+  return normalize(pressed, keyAliases[key] ?? key)
+}
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || /^(input|textarea|select)$/i.test(target.tagName) || ['', 'true'].includes(target.getAttribute('contenteditable') ?? 'false'))
+
+const endsWith = (pressed: string[], sequence: string[]) =>
+  sequence.length <= pressed.length && sequence.every((step, i) => pressed[pressed.length - sequence.length + i] === step)
+
+// every binding goes through one listener, so conflicts are resolved in one place: the longest
+// matching sequence wins, then the most recently bound
+const registrations: Registration[] = []
+let pressed: string[] = []
+let lastPressedAt = 0
+
+const onKeyDown = (event: KeyboardEvent) => {
+  if (['alt', 'control', 'meta', 'shift'].includes(event.key.toLowerCase())) return
+
+  const now = Date.now()
+  const timeout = Math.max(...registrations.map(registration => registration.sequenceTimeout))
+  if (now - lastPressedAt > timeout) pressed = []
+  lastPressedAt = now
+  pressed = [...pressed, comboOf(event)].slice(-Math.max(...registrations.flatMap(({ entries }) => entries.map(entry => entry.sequence.length))))
+
+  const editable = isEditable(event.target)
+  let match: Entry | undefined
+  for (let i = registrations.length - 1; i >= 0; i--) {
+    registrations[i].entries.forEach(entry => {
+      if (editable && !entry.allowsInputs()) return
+      if (!endsWith(pressed, entry.sequence)) return
+      if (!match || entry.sequence.length > match.sequence.length) match = entry
+    })
+  }
+  if (!match) return
+
+  event.preventDefault()
+  pressed = []
+  match.run()
+}
+
+const warnAboutConflicts = (entries: Entry[]) => {
+  const existing = registrations.flatMap(registration => registration.entries)
+  entries.forEach((entry, index) => {
+    [...existing, ...entries.slice(0, index)].forEach(other => {
+      const [shorter, longer] = entry.sequence.length <= other.sequence.length ? [entry, other] : [other, entry]
+      if (!endsWith(longer.sequence.slice(0, shorter.sequence.length), shorter.sequence)) return
+      console.warn(
+        shorter.sequence.length === longer.sequence.length
+          ? `Hotkey "${entry.combo}" conflicts with "${other.combo}" - only the most recently bound one fires`
+          : `Hotkey "${shorter.combo}" is also the start of the sequence "${longer.combo}"`
+      )
+    })
+  })
+}
+
+// resolves each binding when its key is pressed, so callers can keep the bindings up to date
+export function registerHotkeys(
+  combos: string[],
+  resolve: (combo: string) => HotkeyBinding | undefined,
+  { mac = isMac(), sequenceTimeout = 1000 }: HotkeyOptions = {}
+): () => void {
+  if (typeof document === 'undefined') return () => { }
+
+  const entries: Entry[] = combos.map(combo => ({
+    combo,
+    sequence: parseSequence(combo, mac),
+    allowsInputs: () => !!resolve(combo)?.[2]?.allowInInputs,
+    run: () => {
+      const binding = resolve(combo)
+      if (binding) binding[0](binding[1])
+    }
+  }))
+  if (process.env.NODE_ENV !== 'production') warnAboutConflicts(entries)
+
+  const registration: Registration = { entries, sequenceTimeout }
+  if (!registrations.length) document.addEventListener('keydown', onKeyDown)
+  registrations.push(registration)
+
+  return () => {
+    const index = registrations.indexOf(registration)
+    if (index === -1) return
+    registrations.splice(index, 1)
+    if (!registrations.length) {
+      document.removeEventListener('keydown', onKeyDown)
+      pressed = []
+    }
+  }
+}
+
+// `bindHotkeys({ 'mod+k': [toggle, palette] })` outside React - returns a function that unbinds them
+export const bindHotkeys = (bindings: Record<string, HotkeyBinding>, options?: HotkeyOptions) =>
+  registerHotkeys(Object.keys(bindings), combo => bindings[combo], options)
@@ -0,0 +1,17 @@
+import React, { useRef } from 'react'
+
+let counter = 0
+
+// React 18+ gives ids that match between the server and client render. older versions fall back to a
+// counter, which is stable for the component's lifetime but not across SSR
+const useReactId: (() => string) | undefined = (React as any).useId
+const useCounterId = () => {
+  const id = useRef<string>()
+  id.current ??= `t${++counter}`
+  return id.current
+}
+
+export const useStableId = (): string => (useReactId ?? useCounterId)().replace(/[^\w-]/g, '')
+
+// element ids for nouns without one of their own, e.g. `ui:panel` → `toggles-ui-panel`
+export const idFromName = (name: string) => `toggles-${name.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '')}`
@@ -0,0 +1,33 @@
+import { globalNouns, type GlobalNounStore } from './globalNouns'
+import { setNounValue, type Noun } from './nouns'
+
+// the same Noun objects `useToggles(namespace)` hands out, so the exported verbs work on them directly
+export function getToggle(namespace: string, name: string, initialValue?: boolean, store: GlobalNounStore = globalNouns): Noun {
+  return store.get(`${namespace}:${name}`, initialValue)
+}
+
+// goes through middleware like a verb would, without a verb name
+export function setToggle(namespace: string, name: string, value: boolean, store: GlobalNounStore = globalNouns): void | Promise<void> {
+  return setNounValue(getToggle(namespace, name, undefined, store), value)
+}
+
+// keeps the noun alive while subscribed - call the returned function to stop listening
+export function subscribeToggle(
+  namespace: string,
+  name: string,
+  listener: (noun: Noun) => void,
+  store: GlobalNounStore = globalNouns
+): () => void {
+  const key = `${namespace}:${name}`
+  const noun = getToggle(namespace, name, undefined, store)
+  store.acquire(key)
+  const unsubscribe = store.subscribe(key, () => listener(noun))
+
+  let subscribed = true
+  return () => {
+    if (!subscribed) return
+    subscribed = false
+    unsubscribe()
+    store.release(key)
+  }
+}
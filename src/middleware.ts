@@ -0,0 +1,66 @@
+import type { Noun } from './nouns'
+
+export interface MiddlewareContext {
+  noun: Noun
+  name: string // noun name without the namespace
+  namespace?: string // undefined for local nouns
+  current: boolean
+  requested: boolean
+  verb?: string
+}
+
+// call `next()` to allow the change, `next(value)` to substitute another value, or never call it to veto
+export type ToggleMiddleware = (context: MiddlewareContext, next: (value?: boolean) => void) => void | Promise<void>
+
+export type MiddlewareRunner = (context: MiddlewareContext, apply: (value: boolean) => void) => void | Promise<void>
+
+export interface MiddlewareRegistry {
+  use(middleware: ToggleMiddleware, options?: { namespace?: string }): () => void
+  run: MiddlewareRunner
+  clear(): void
+}
+
+// each store keeps its own, so middleware added for one store (say a per-request store during SSR)
+// never runs for another
+export function createMiddlewareRegistry(): MiddlewareRegistry {
+  const registered: { middleware: ToggleMiddleware; namespace?: string }[] = []
+
+  return {
+    // without a namespace the middleware sees every change, including the store's local nouns
+    use(middleware, options = {}) {
+      const registration = { middleware, namespace: options.namespace }
+      registered.push(registration)
+      return () => {
+        const index = registered.indexOf(registration)
+        if (index !== -1) registered.splice(index, 1)
+      }
+    },
+
+    run(context, apply) {
+      const chain = registered
+        .filter(({ namespace }) => namespace === undefined || namespace === context.namespace)
+        .map(({ middleware }) => middleware)
+
+      const dispatch = (index: number, value: boolean): void | Promise<void> => {
+        const middleware = chain[index]
+        if (!middleware) return apply(value)
+
+        let called = false
+        let next: void | Promise<void> = undefined
+        const result = middleware({ ...context, requested: value }, (substitute = value) => {
+          if (called) return
+          called = true
+          next = dispatch(index + 1, substitute)
+        })
+        // async middlewares settle once the rest of the chain has
+        return result instanceof Promise ? result.then(() => next) : next
+      }
+
+      return dispatch(0, context.requested)
+    },
+
+    clear() {
+      registered.length = 0
+    }
+  }
+}
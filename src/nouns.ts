@@ -1,3 +1,6 @@
+import type { MiddlewareRunner } from './middleware'
+import { cancelTimer } from './timers'
+
 // noun state mapping - true for positive states, false for negative
 const positiveStates = ['Active', 'Open', 'Shown', 'Visible', 'On', 'Checked', 'Enabled', 'Expanded', 'Activated', 'Connected', 'Focused', 'Mounted', 'Revealed', 'Locked', 'Subscribed']
 const negativeStates = ['Closed', 'Hidden', 'Off', 'Unchecked', 'Disabled', 'Collapsed', 'Deactivated', 'Disconnected', 'Blurred', 'Concealed', 'Unlocked']
@@ -10,17 +13,63 @@ export const nounState: Record<string, boolean> = Object.fromEntries([
 ])
 
 export const NounSetter = Symbol.for('NounSetter')
+export const NounNamespace = Symbol.for('NounNamespace')
+export const NounSubscribe = Symbol.for('NounSubscribe')
+export const NounReadOnly = Symbol.for('NounReadOnly')
+export const NounRefresh = Symbol.for('NounRefresh')
+export const NounIndeterminate = Symbol.for('NounIndeterminate')
+export const NounId = Symbol.for('NounId')
+export const NounMiddleware = Symbol.for('NounMiddleware')
 
 export type Noun = { [K in keyof typeof nounState]: boolean }
 type Getter = () => boolean
-type Setter = (active: boolean) => void
+type Setter = (active: boolean, verb?: string) => void
+export type NounListener = (listener: () => void) => () => void
+
+export interface NounOptions {
+  subscribe?: NounListener // lets code outside the owning hook follow the noun's changes
+  refresh?: () => void // rerenders whoever shows the noun when only its pending/error status changed
+  indeterminate?: () => boolean // tri-state nouns - while true every positive and negative state reads false
+  setIndeterminate?: () => void
+  id?: string // base for element ids, nouns without one derive it from their name
+  middleware?: MiddlewareRunner // the owning store's middleware, changes go straight through without one
+}
+
+export interface NounStatus {
+  pending: boolean
+  error?: unknown
+}
+
+const statuses = new WeakMap<object, NounStatus>()
+
+export const getNounStatus = (noun: Noun): NounStatus => statuses.get(noun) ?? { pending: false }
+
+export function setNounStatus(noun: Noun, status: NounStatus) {
+  statuses.set(noun, status)
+  ;(noun as any)[NounRefresh]?.()
+}
 
-export function createNounFromState(name: string, getActive: Getter, setActive: Setter): Noun {
+// the error from the last failed async verb on this noun, cleared when the next one starts
+export const getNounError = (noun: Noun): unknown => getNounStatus(noun).error
+
+// a null setter makes the noun read-only
+export function createNounFromState(name: string, getActive: Getter, setActive: Setter | null, namespace?: string, options: NounOptions = {}): Noun {
   return new Proxy({}, {
-    get(_, prop: PropertyKey) {
+    get(_, prop: PropertyKey, receiver: object) {
       if (prop === NounSetter) return setActive
+      if (prop === NounNamespace) return namespace
+      if (prop === NounSubscribe) return options.subscribe
+      if (prop === NounRefresh) return options.refresh
+      if (prop === NounReadOnly) return setActive === null
+      if (prop === NounIndeterminate) return options.setIndeterminate
+      if (prop === NounId) return options.id
+      if (prop === NounMiddleware) return options.middleware
+      if (prop === 'isPending') return !!statuses.get(receiver)?.pending
+      if (prop === 'hasError') return 'error' in (statuses.get(receiver) ?? {})
       if (prop === 'name') return name
+      if (prop === 'isIndeterminate') return !!options.indeterminate?.()
       if (typeof prop === 'string' && prop in nounState) {
+        if (options.indeterminate?.()) return false
         return nounState[prop] ? getActive() : !getActive()
       }
       return undefined
@@ -28,13 +77,53 @@ export function createNounFromState(name: string, getActive: Getter, setActive:
   }) as Noun
 }
 
-export function setNounValue(noun: Noun, value: boolean) {
+// whether the noun ended up at `value` - false when it isn't writable, middleware vetoed or swapped the
+// value, or the noun itself refused (the last member of a required group). decided as the change is
+// applied, so a later change to the noun can't be mistaken for a veto
+export function applyNounValue(noun: Noun, value: boolean, verb?: string): boolean | Promise<boolean> {
   if (!noun || typeof noun !== 'object') {
-    return console.warn(`No setter on noun for ${value ? 'positive' : 'negative'} action`)
+    console.warn(`No setter on noun for ${value ? 'positive' : 'negative'} action`)
+    return false
+  }
+  if ((noun as any)[NounReadOnly]) {
+    console.warn(`Cannot ${verb ?? 'set'} derived noun ${noun.name}: it is read-only, change the nouns it is derived from instead`)
+    return false
   }
   const nounSetter = (noun as any)[NounSetter]
   if (typeof nounSetter !== 'function') {
-    return console.warn(`No setter on noun ${noun.name} for ${value ? 'positive' : 'negative'} action`)
+    console.warn(`No setter on noun ${noun.name} for ${value ? 'positive' : 'negative'} action`)
+    return false
+  }
+  // a verb called directly overrides whatever a timed verb had scheduled
+  cancelTimer(noun)
+
+  let applied = false
+  const apply = (next: boolean) => {
+    nounSetter(next, verb)
+    applied = !!noun.isActive === value
   }
-  nounSetter(value)
-}
\ No newline at end of file
+  const runMiddleware: MiddlewareRunner | undefined = (noun as any)[NounMiddleware]
+  if (!runMiddleware) {
+    apply(value)
+    return applied
+  }
+  const namespace: string | undefined = (noun as any)[NounNamespace]
+  const name = String(noun.name)
+  const result = runMiddleware(
+    {
+      noun,
+      name: namespace === undefined ? name : name.slice(namespace.length + 1),
+      namespace,
+      current: !!noun.isActive,
+      requested: value,
+      verb
+    },
+    apply
+  )
+  return result instanceof Promise ? result.then(() => applied) : applied
+}
+
+export function setNounValue(noun: Noun, value: boolean, verb?: string): void | Promise<void> {
+  const applied = applyNounValue(noun, value, verb)
+  if (applied instanceof Promise) return applied.then(() => { })
+}
@@ -0,0 +1,46 @@
+import { applyNounValue, setNounStatus, NounSetter, type Noun } from './nouns'
+
+export type Effect = () => Promise<unknown>
+
+interface Flight {
+  latest: number
+  confirmed: boolean // what the noun goes back to if the latest request fails
+}
+
+let requestIds = 0
+const flights = new WeakMap<object, Flight>()
+
+// flips the noun straight away, then settles it with `effect`. when the verb is called again before
+// the first request settles only the latest request counts: earlier requests still run, and the ones
+// that succeed become what a failure rolls back to. a failed latest request restores the last value
+// known to have stuck, every failure rejects its own caller
+export async function runOptimistic(noun: Noun, value: boolean, verb: string, effect: Effect): Promise<void> {
+  const previous = !!noun?.isActive
+  // not a writable noun, or vetoed by middleware
+  if (!(await applyNounValue(noun, value, verb))) return
+
+  const id = ++requestIds
+  const flight = flights.get(noun) ?? { latest: id, confirmed: previous }
+  flight.latest = id
+  flights.set(noun, flight)
+  setNounStatus(noun, { pending: true })
+
+  try {
+    await effect()
+  } catch (error) {
+    if (flight.latest === id) {
+      flights.delete(noun)
+      // straight to the setter - middleware already agreed to the optimistic change
+      if (!!noun.isActive !== flight.confirmed) (noun as any)[NounSetter](flight.confirmed, 'rollback')
+      setNounStatus(noun, { pending: false, error })
+    }
+    throw error
+  }
+
+  if (flight.latest !== id) {
+    flight.confirmed = value
+    return
+  }
+  flights.delete(noun)
+  setNounStatus(noun, { pending: false })
+}
@@ -0,0 +1,138 @@
+// storage adapters - anything with a string get/set can back a persisted namespace
+export interface PersistenceAdapter {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem?(key: string): void
+}
+
+export type Migration = (values: Record<string, boolean>) => Record<string, boolean>
+
+export interface PersistOptions {
+  adapter: PersistenceAdapter
+  key?: string // storage key, defaults to `toggles:<namespace>`
+  version?: number
+  migrations?: Record<number, Migration> // keyed by the version they migrate *to*
+  expiresIn?: number // ms after which a saved value is forgotten
+}
+
+interface PersistedRecord {
+  version: number
+  values: Record<string, { value: boolean; savedAt: number }>
+}
+
+const createWebStorageAdapter = (getStorage: () => Storage | undefined): PersistenceAdapter => {
+  // storage access can throw (private mode, sandboxed iframes) so every call is guarded
+  const storage = () => {
+    try { return getStorage() } catch { return undefined }
+  }
+  return {
+    getItem: key => {
+      try { return storage()?.getItem(key) ?? null } catch { return null }
+    },
+    setItem: (key, value) => {
+      try { storage()?.setItem(key, value) } catch (error) {
+        console.warn(`Failed to persist toggles to "${key}"`, error)
+      }
+    },
+    removeItem: key => {
+      try { storage()?.removeItem(key) } catch { }
+    }
+  }
+}
+
+export const localStorageAdapter = createWebStorageAdapter(() => typeof window !== 'undefined' ? window.localStorage : undefined)
+export const sessionStorageAdapter = createWebStorageAdapter(() => typeof window !== 'undefined' ? window.sessionStorage : undefined)
+
+const storageKey = (namespace: string, options: PersistOptions) => options.key ?? `toggles:${namespace}`
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object'
+
+const isSavedValue = (saved: unknown): saved is PersistedRecord['values'][string] =>
+  isObject(saved) && typeof saved.value === 'boolean' && typeof saved.savedAt === 'number'
+
+// storage is shared with older builds, other code and people editing it by hand, so anything
+// that isn't a record we wrote is dropped rather than trusted
+function readRecord(namespace: string, options: PersistOptions): PersistedRecord | undefined {
+  const raw = options.adapter.getItem(storageKey(namespace, options))
+  if (!raw) return undefined
+  const warn = () => console.warn(`Ignoring malformed persisted toggles for namespace "${namespace}"`)
+
+  let record: unknown
+  try {
+    record = JSON.parse(raw)
+  } catch {
+    warn()
+    return undefined
+  }
+  if (!isObject(record) || typeof record.version !== 'number' || !isObject(record.values)) {
+    warn()
+    return undefined
+  }
+
+  const values: PersistedRecord['values'] = {}
+  let dropped = false
+  Object.entries(record.values).forEach(([noun, saved]) => {
+    if (isSavedValue(saved)) values[noun] = saved
+    else dropped = true
+  })
+  if (dropped) warn()
+  return { version: record.version, values }
+}
+
+function migrate(record: PersistedRecord, options: PersistOptions): PersistedRecord | undefined {
+  const version = options.version ?? 0
+  if (record.version === version) return record
+  // never try to downgrade - a newer schema written by a newer build is dropped
+  if (record.version > version) return undefined
+
+  let values = Object.fromEntries(Object.entries(record.values).map(([noun, saved]) => [noun, saved.value]))
+  for (let v = record.version + 1; v <= version; v++) {
+    const migration = options.migrations?.[v]
+    if (migration) values = migration(values)
+  }
+
+  const now = Date.now()
+  return {
+    version,
+    values: Object.fromEntries(Object.entries(values).map(([noun, value]) =>
+      [noun, { value, savedAt: record.values[noun]?.savedAt ?? now }]
+    ))
+  }
+}
+
+export function readPersisted(namespace: string, options: PersistOptions): Record<string, boolean> {
+  const stored = readRecord(namespace, options)
+  if (!stored) return {}
+
+  const record = migrate(stored, options)
+  if (!record) {
+    options.adapter.removeItem?.(storageKey(namespace, options))
+    return {}
+  }
+
+  const now = Date.now()
+  const values: Record<string, boolean> = {}
+  let expired = false
+  Object.entries(record.values).forEach(([noun, saved]) => {
+    if (options.expiresIn !== undefined && now - saved.savedAt >= options.expiresIn) {
+      delete record.values[noun]
+      expired = true
+    } else {
+      values[noun] = saved.value
+    }
+  })
+
+  if (record !== stored || expired) {
+    options.adapter.setItem(storageKey(namespace, options), JSON.stringify(record))
+  }
+  return values
+}
+
+export function writePersisted(namespace: string, options: PersistOptions, noun: string, value: boolean) {
+  const record = readRecord(namespace, options)
+  const next: PersistedRecord = record && record.version === (options.version ?? 0)
+    ? record
+    : { version: options.version ?? 0, values: {} }
+  next.values[noun] = { value, savedAt: Date.now() }
+  options.adapter.setItem(storageKey(namespace, options), JSON.stringify(next))
+}
@@ -0,0 +1,11 @@
+import React, { createContext, useContext, type ReactNode } from 'react'
+import { globalNouns, type GlobalNounStore } from './globalNouns'
+
+const TogglesContext = createContext<GlobalNounStore>(globalNouns)
+
+// scopes namespaced toggles to `store` - without a provider hooks use the default `globalNouns`
+export function TogglesProvider({ store, children }: { store: GlobalNounStore; children?: ReactNode }) {
+  return <TogglesContext.Provider value={store}>{children}</TogglesContext.Provider>
+}
+
+export const useToggleStore = () => useContext(TogglesContext)
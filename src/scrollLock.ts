@@ -0,0 +1,18 @@
+let locks = 0
+let previousOverflow = ''
+
+// body scrolling stays off until every lock is released
+export function lockScroll(): () => void {
+  if (typeof document === 'undefined') return () => { }
+  if (locks++ === 0) {
+    previousOverflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+  }
+
+  let locked = true
+  return () => {
+    if (!locked) return
+    locked = false
+    if (--locks === 0) document.body.style.overflow = previousOverflow
+  }
+}
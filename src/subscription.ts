@@ -0,0 +1,65 @@
+import type { GlobalNounStore } from './globalNouns'
+
+export interface NounSubscription {
+  track(key: string, initialValue?: boolean): void
+  subscribe(onChange: () => void): () => void
+  getSnapshot(): number
+}
+
+// subscribes one hook instance to exactly the namespaced nouns it has read - a noun first read
+// after React subscribed is picked up immediately, everything is released on unsubscribe. the
+// snapshot only moves when one of those nouns changes, so changes elsewhere in the store never
+// rerender the hook
+export function createNounSubscription(store: GlobalNounStore): NounSubscription {
+  const seen = new Map<string, number>() // key → store version it had when last read
+  const initialValues = new Map<string, boolean>()
+  const unsubscribers = new Map<string, () => void>()
+  let onChange: (() => void) | null = null
+  let version = 0
+
+  const changed = () => {
+    version++
+    onChange?.()
+  }
+
+  const watch = (key: string) => {
+    if (!onChange || unsubscribers.has(key)) return
+    // evicted after it was read - bring it back rather than silently miss its changes
+    if (!store.has(key)) store.get(key, initialValues.get(key))
+    store.acquire(key)
+    unsubscribers.set(key, store.subscribe(key, changed))
+  }
+
+  return {
+    track(key, initialValue) {
+      seen.set(key, store.getVersion(key))
+      if (initialValue !== undefined) initialValues.set(key, initialValue)
+      if (onChange) watch(key)
+      else store.markRendered(key)
+    },
+    subscribe(callback) {
+      onChange = callback
+      // nouns that are still there first, so bringing back an evicted one can't evict the rest
+      const keys = Array.from(seen.keys())
+      keys.filter(key => store.has(key)).forEach(watch)
+      keys.forEach(watch)
+      seen.forEach((read, key) => {
+        // changed between the render that read it and now
+        if (store.getVersion(key) !== read) {
+          version++
+          seen.set(key, store.getVersion(key))
+        }
+      })
+      store.markCommitted()
+      return () => {
+        unsubscribers.forEach((unsubscribe, key) => {
+          unsubscribe()
+          store.release(key)
+        })
+        unsubscribers.clear()
+        onChange = null
+      }
+    },
+    getSnapshot: () => version
+  }
+}
@@ -0,0 +1,66 @@
+export interface SyncOptions {
+  channel?: string // BroadcastChannel name, also used as the localStorage key for the fallback
+  namespaces?: string[] | ((namespace: string) => boolean) // defaults to every namespace
+}
+
+export interface SyncMessage {
+  source: string
+  key: string
+  state: boolean
+}
+
+export interface SyncTransport {
+  post(message: SyncMessage): void
+  close(): void
+}
+
+// each store instance gets its own id so messages it sent can be recognized and dropped
+export const createSourceId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
+
+export function shouldSync(namespace: string, options: SyncOptions) {
+  const { namespaces } = options
+  if (!namespaces) return true
+  return typeof namespaces === 'function' ? namespaces(namespace) : namespaces.includes(namespace)
+}
+
+// anything can post to a shared channel name - only well-formed messages about namespaced nouns get through
+const isSyncMessage = (data: unknown): data is SyncMessage => {
+  if (!data || typeof data !== 'object') return false
+  const { source, key, state } = data as Record<string, unknown>
+  return typeof source === 'string' && typeof key === 'string' && key.includes(':') && typeof state === 'boolean'
+}
+
+export function createSyncTransport(channel: string, onMessage: (message: SyncMessage) => void): SyncTransport | undefined {
+  const receive = (data: unknown) => {
+    if (isSyncMessage(data)) onMessage(data)
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const broadcast = new BroadcastChannel(channel)
+    broadcast.onmessage = (event: MessageEvent) => receive(event.data)
+    return {
+      post: message => broadcast.postMessage(message),
+      close: () => broadcast.close()
+    }
+  }
+
+  // storage events only fire in *other* tabs, so writing the message is enough to deliver it
+  if (typeof window !== 'undefined' && window.localStorage) {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== channel || !event.newValue) return
+      try { receive(JSON.parse(event.newValue)) } catch { }
+    }
+    window.addEventListener('storage', onStorage)
+    return {
+      post: message => {
+        try {
+          // the nonce makes repeated identical messages still register as a change
+          window.localStorage.setItem(channel, JSON.stringify({ ...message, nonce: Math.random() }))
+        } catch { }
+      },
+      close: () => window.removeEventListener('storage', onStorage)
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,27 @@
+import { negativeVerbs, verbPairs, verbs, type PositiveVerbName, type VerbName } from './verbs'
+import { scheduleTimer } from './timers'
+import type { Noun } from './nouns'
+
+// every timed verb returns a function that cancels its pending timer
+export type TimedVerb = (noun: Noun, delay: number) => () => void
+
+export type DelayedVerbs = Record<`${VerbName}After`, TimedVerb>
+export type LimitedVerbs = Record<`${PositiveVerbName}For`, TimedVerb>
+
+// `openAfter(tooltip, 300)` - applies the verb once the delay has passed
+const delayed = (name: VerbName): TimedVerb => (noun, delay) =>
+  scheduleTimer(noun, delay, () => { verbs[name](noun) })
+
+// `showFor(toast, 5000)` - applies the verb now and its opposite once the duration has passed
+const limited = (name: PositiveVerbName): TimedVerb => (noun, duration) => {
+  verbs[name](noun)
+  return scheduleTimer(noun, duration, () => { negativeVerbs[verbPairs[name]](noun) })
+}
+
+export const delayedVerbs = Object.fromEntries(
+  (Object.keys(verbs) as VerbName[]).map(name => [`${name}After`, delayed(name)])
+) as DelayedVerbs
+
+export const limitedVerbs = Object.fromEntries(
+  (Object.keys(verbPairs) as PositiveVerbName[]).map(name => [`${name}For`, limited(name)])
+) as LimitedVerbs
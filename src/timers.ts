@@ -0,0 +1,23 @@
+import type { Noun } from './nouns'
+
+// at most one pending timer per noun - scheduling another, or any verb on the noun, replaces it
+const timers = new WeakMap<object, ReturnType<typeof setTimeout>>()
+
+export function scheduleTimer(noun: Noun, delay: number, callback: () => void): () => void {
+  cancelTimer(noun)
+  const timer = setTimeout(() => {
+    timers.delete(noun)
+    callback()
+  }, delay)
+  timers.set(noun, timer)
+  return () => {
+    if (timers.get(noun) === timer) cancelTimer(noun)
+  }
+}
+
+export function cancelTimer(noun: Noun): void {
+  const timer = timers.get(noun)
+  if (timer === undefined) return
+  clearTimeout(timer)
+  timers.delete(noun)
+}
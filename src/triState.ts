@@ -0,0 +1,32 @@
+import { batch } from './batch'
+import { createNounFromState, setNounValue, NounIndeterminate, type Noun } from './nouns'
+import { labelOf, subscribeAll } from './derived'
+
+export type TriState = boolean | 'indeterminate'
+
+// tri-state nouns read `isIndeterminate` alongside `isChecked` / `isUnchecked`, and while indeterminate
+// both of those are false. verbs always leave them checked or unchecked: `check` and `uncheck` do what
+// they say, `toggle` from indeterminate checks - like clicking a native indeterminate checkbox
+export function setIndeterminate(noun: Noun): void {
+  const set = (noun as any)?.[NounIndeterminate]
+  if (typeof set !== 'function') {
+    return console.warn(`Cannot make noun ${noun?.name} indeterminate: only tri-state nouns with their own state can be`)
+  }
+  set()
+}
+
+// "select all" for a set of child nouns - checked when every child is, unchecked when none are and
+// indeterminate in between. verbs on it apply to all the children at once
+export function triStateOf(...children: Noun[]): Noun {
+  const checked = () => children.filter(child => child.isActive).length
+  return createNounFromState(
+    labelOf('triStateOf', children),
+    () => children.length > 0 && checked() === children.length,
+    (value, verb) => batch(() => children.forEach(child => { setNounValue(child, value, verb) })),
+    undefined,
+    {
+      subscribe: subscribeAll(children),
+      indeterminate: () => checked() > 0 && checked() < children.length
+    }
+  )
+}
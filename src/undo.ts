@@ -0,0 +1,99 @@
+import { batch } from './batch'
+import { NounSetter } from './nouns'
+import type { GlobalNounStore, ToggleChange } from './globalNouns'
+
+export interface HistoryOptions {
+  limit?: number // how many steps can be undone, defaults to 100
+}
+
+export interface ToggleHistory {
+  undo(): void
+  redo(): void
+  readonly canUndo: boolean
+  readonly canRedo: boolean
+  clear(): void
+  subscribe(listener: () => void): () => void
+  stop(): void
+}
+
+// each step maps a noun key to its values before and after
+type Step = Map<string, { before: boolean; after: boolean }>
+
+// records every change to the namespace's nouns - changes made in the same tick (a batch, a click
+// that opens one panel and closes another) become a single step
+export function createHistory(store: GlobalNounStore, namespace: string, options: HistoryOptions = {}, onStop = () => { }): ToggleHistory {
+  const limit = options.limit ?? 100
+  const past: Step[] = []
+  let future: Step[] = []
+  let current: Step | null = null
+  let applying = false
+  const listeners = new Set<() => void>()
+  const emit = () => listeners.forEach(listener => listener())
+
+  const record = ({ key, previous, value }: ToggleChange) => {
+    if (applying || previous === value || !key.startsWith(`${namespace}:`)) return
+    if (!current) {
+      const step: Step = new Map()
+      current = step
+      past.push(step)
+      if (past.length > limit) past.shift()
+      Promise.resolve().then(() => {
+        if (current === step) current = null
+      })
+    }
+    const change = current.get(key)
+    current.set(key, { before: change ? change.before : previous, after: value })
+    future = []
+    emit()
+  }
+  const stopRecording = store.onChange(record)
+
+  const apply = (step: Step, direction: 'before' | 'after', verb: string) => {
+    current = null
+    applying = true
+    try {
+      // straight to the setters - undoing is not a new request for middleware to judge
+      batch(() => step.forEach((change, key) => (store.get(key) as any)[NounSetter](change[direction], verb)))
+    } finally {
+      applying = false
+    }
+  }
+
+  return {
+    undo() {
+      const step = past.pop()
+      if (!step) return
+      apply(step, 'before', 'undo')
+      future.push(step)
+      emit()
+    },
+    redo() {
+      const step = future.pop()
+      if (!step) return
+      apply(step, 'after', 'redo')
+      past.push(step)
+      emit()
+    },
+    get canUndo() {
+      return past.length > 0
+    },
+    get canRedo() {
+      return future.length > 0
+    },
+    clear() {
+      past.length = 0
+      future = []
+      current = null
+      emit()
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    stop() {
+      stopRecording()
+      listeners.clear()
+      onStop()
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { globalNouns, type GlobalNounStore } from './globalNouns'
+import { setNounValue } from './nouns'
+
+// where the query string lives - swap in a router's history, or `createMemoryLocation` in tests
+export interface LocationSource {
+  getSearch(): string
+  getState(): unknown // the history state of the current entry
+  push(search: string, state?: unknown): void // state defaults to the current entry's
+  replace(search: string): void
+  back(): void
+  listen(listener: () => void): () => void // called when the search changes from outside, e.g. back/forward
+}
+
+const withSearch = (search: string) => `${window.location.pathname}${search}${window.location.hash}`
+
+export const browserLocation: LocationSource = {
+  getSearch: () => window.location.search,
+  getState: () => window.history.state,
+  push: (search, state = window.history.state) => window.history.pushState(state, '', withSearch(search)),
+  replace: search => window.history.replaceState(window.history.state, '', withSearch(search)),
+  back: () => window.history.back(),
+  listen: listener => {
+    window.addEventListener('popstate', listener)
+    return () => window.removeEventListener('popstate', listener)
+  }
+}
+
+export function createMemoryLocation(initialSearch = ''): LocationSource & { entries: string[]; states: unknown[]; index: number; go(delta: number): void } {
+  const listeners = new Set<() => void>()
+  const location = {
+    entries: [initialSearch],
+    states: [null] as unknown[],
+    index: 0,
+    getSearch: () => location.entries[location.index],
+    getState: () => location.states[location.index],
+    push: (search: string, state?: unknown) => {
+      const current: unknown = location.states[location.index]
+      location.entries = [...location.entries.slice(0, location.index + 1), search]
+      location.states = [...location.states.slice(0, location.index + 1), state === undefined ? current : state]
+      location.index++
+    },
+    replace: (search: string) => { location.entries[location.index] = search },
+    back: () => location.go(-1),
+    listen: (listener: () => void) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+    go: (delta: number) => {
+      location.index = Math.min(Math.max(location.index + delta, 0), location.entries.length - 1)
+      listeners.forEach(listener => listener())
+    }
+  }
+  return location
+}
+
+export interface UrlSyncOptions {
+  nouns: string[] // namespaced keys, e.g. 'ui:filters'
+  params?: Record<string, string> // param name per key, defaults to the key with ':' swapped for '.'
+  defaults?: Record<string, boolean> // value left out of the URL per key, defaults to the noun's initial value
+  history?: 'push' | 'replace' // defaults to 'replace'
+  location?: LocationSource
+  store?: GlobalNounStore
+}
+
+const parseParam = (value: string | null) => {
+  if (value === '1' || value === 'true') return true
+  if (value === '0' || value === 'false') return false
+  return undefined
+}
+
+// two-way binds nouns to query params - a noun at its starting value is left out of the URL. nouns
+// are only created for params in the URL, the rest keep the initial value their component gives them
+export function syncToggleParams(options: UrlSyncOptions): () => void {
+  const { store = globalNouns, location = browserLocation, history = 'replace' } = options
+  const nouns = new Set(options.nouns)
+  const paramName = (key: string) => options.params?.[key] ?? key.replace(/:/g, '.')
+  // looked up when needed - the initial value is only known once a component has asked for the noun
+  const defaultOf = (key: string) => options.defaults?.[key] ?? store.getInitialValue(key) ?? false
+  const held = new Set<string>()
+  let applying = false
+
+  const readUrl = () => {
+    const params = new URLSearchParams(location.getSearch())
+    applying = true
+    try {
+      nouns.forEach(key => {
+        const param = parseParam(params.get(paramName(key)))
+        if (param === undefined && !store.has(key)) return
+        const noun = store.get(key)
+        // keep nouns the URL opened around until a component picks them up
+        if (!held.has(key)) {
+          held.add(key)
+          store.acquire(key)
+        }
+        const value = param ?? defaultOf(key)
+        if (noun.isActive !== value) setNounValue(noun, value)
+      })
+    } finally {
+      applying = false
+    }
+  }
+
+  const writeUrl = (key: string, value: boolean) => {
+    const params = new URLSearchParams(location.getSearch())
+    if (value === defaultOf(key)) params.delete(paramName(key))
+    else params.set(paramName(key), value ? '1' : '0')
+
+    const query = params.toString()
+    const search = query ? `?${query}` : ''
+    if (search === location.getSearch()) return
+    if (history === 'push') location.push(search)
+    else location.replace(search)
+  }
+
+  readUrl()
+
+  const stopListening = store.onChange(({ key, value }) => {
+    if (!applying && nouns.has(key)) writeUrl(key, value)
+  })
+  const stopLocation = location.listen(readUrl)
+
+  return () => {
+    stopListening()
+    stopLocation()
+    held.forEach(key => store.release(key))
+  }
+}
@@ -1,4 +1,5 @@
-import { setNounValue, type Noun } from './nouns'
+import { nounState, setNounValue, type Noun } from './nouns'
+import { runOptimistic, type Effect } from './optimistic'
 
 // toggle verb pairs
 export const verbPairs = {
@@ -22,18 +23,93 @@ export const verbPairs = {
 export type PositiveVerbName = keyof typeof verbPairs
 export type NegativeVerbName = typeof verbPairs[PositiveVerbName]
 export type VerbName = PositiveVerbName | NegativeVerbName | 'toggle'
-export type Verb = (noun: Noun) => void
+export type Verb = {
+  (noun: Noun): void | Promise<void> // a promise when an async middleware is deciding
+  (noun: Noun, effect: Effect): Promise<void> // optimistic - settled, or rolled back, by the effect
+}
 
 export type Verbs = Record<VerbName, Verb>
 export type PositiveVerbs = Record<PositiveVerbName, Verb>
 export type NegativeVerbs = Record<NegativeVerbName, Verb>
 
+const apply = (noun: Noun, value: boolean, verb: string, effect?: Effect) =>
+  effect ? runOptimistic(noun, value, verb, effect) : setNounValue(noun, value, verb)
+
 const createVerbs = (keys: readonly string[], value: boolean) =>
-  Object.fromEntries(keys.map(key => [key, (noun: Noun) => setNounValue(noun, value)]))
+  Object.fromEntries(keys.map(key => [key, (noun: Noun, effect?: Effect) => apply(noun, value, key, effect)]))
 
 export const positiveVerbs = createVerbs(Object.keys(verbPairs), true) as PositiveVerbs
 export const negativeVerbs = createVerbs(Object.values(verbPairs), false) as NegativeVerbs
 
-const toggle: Verb = (noun: Noun) => setNounValue(noun, !noun?.isActive)
+const toggle = ((noun: Noun, effect?: Effect) => apply(noun, !noun?.isActive, 'toggle', effect)) as Verb
 
 export const verbs: Verbs = { ...positiveVerbs, ...negativeVerbs, toggle }
+
+export interface VerbStates {
+  positive: string // e.g. 'Pinned', read as `noun.isPinned`
+  negative: string
+}
+
+export type CustomVerbs<P extends Record<string, string>> = Record<Extract<keyof P, string> | P[keyof P], Verb>
+
+// best guess at the state a verb leaves a noun in - pin → Pinned, mute → Muted, select → Selected.
+// pass the states to `defineVerbs` when the guess is wrong
+const stateOf = (verb: string) => {
+  const syllables = verb.replace(/^(un|de|dis)/, '').match(/[aeiouy]+/g)?.length ?? 0
+  const past = /e$/.test(verb) ? `${verb}d`
+    : /[^aeiou]y$/.test(verb) ? `${verb.slice(0, -1)}ied`
+    : /[^aeiou][aeiou][bdgklmnprt]$/.test(verb) && syllables === 1 ? `${verb}${verb.slice(-1)}ed`
+    : `${verb}ed`
+  return past[0].toUpperCase() + past.slice(1)
+}
+
+const definedPairs: Record<string, string> = {}
+
+const checkState = (state: string, value: boolean) => {
+  const key = `is${state}`
+  if (key in nounState && nounState[key] !== value) {
+    throw new Error(`Noun state "${key}" is already defined as ${nounState[key] ? 'positive' : 'negative'}`)
+  }
+}
+
+// defining the same pair again (e.g. a module re-evaluated by hot reloading) is fine, anything else clashes
+const checkVerb = (name: string, pair: string) => {
+  if (name in verbs && definedPairs[name] !== pair) throw new Error(`Verb "${name}" is already defined`)
+}
+
+const registerVerb = (name: string, value: boolean, pair: string) => {
+  definedPairs[name] = pair
+  const verb = ((noun: Noun, effect?: Effect) => apply(noun, value, name, effect)) as Verb
+  ;(verbs as Record<string, Verb>)[name] = verb
+  ;((value ? positiveVerbs : negativeVerbs) as Record<string, Verb>)[name] = verb
+  return verb
+}
+
+// adds verb pairs to the vocabulary, with `is<State>` properties on every noun. `states` names the
+// states for a single pair, or per positive verb when defining several
+export function defineVerbs<P extends Record<string, string>>(
+  pairs: P,
+  states?: VerbStates | Partial<Record<keyof P, VerbStates>>
+): CustomVerbs<P> {
+  const entries = Object.entries(pairs).map(([positive, negative]) => {
+    const named = states && typeof states.positive === 'string' ? states as VerbStates : (states as Record<string, VerbStates> | undefined)?.[positive]
+    return { positive, negative, positiveState: named?.positive ?? stateOf(positive), negativeState: named?.negative ?? stateOf(negative) }
+  })
+
+  // nothing is registered unless every pair fits
+  entries.forEach(({ positive, negative, positiveState, negativeState }) => {
+    checkVerb(positive, negative)
+    checkVerb(negative, positive)
+    checkState(positiveState, true)
+    checkState(negativeState, false)
+  })
+
+  const defined: Record<string, Verb> = {}
+  entries.forEach(({ positive, negative, positiveState, negativeState }) => {
+    nounState[`is${positiveState}`] = true
+    nounState[`is${negativeState}`] = false
+    defined[positive] = registerVerb(positive, true, negative)
+    defined[negative] = registerVerb(negative, false, positive)
+  })
+  return defined as CustomVerbs<P>
+}
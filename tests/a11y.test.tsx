@@ -0,0 +1,112 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import {
+  useToggles, useToggle, globalNouns, anyOf,
+  getTriggerProps, getPanelProps, getSwitchProps, getToggleButtonProps
+} from '../index'
+
+const { renderToString } = require('react-dom/server.node')
+
+describe('Accessibility props', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Disclosure() {
+    const { details } = useToggles()
+    return (
+      <>
+        <button {...getTriggerProps(details)}>Details</button>
+        <div {...getPanelProps(details)}>Shipping takes 3 days</div>
+      </>
+    )
+  }
+
+  it('wires a disclosure up by default', async () => {
+    render(<Disclosure />)
+    const trigger = screen.getByText('Details')
+    const panel = screen.getByText('Shipping takes 3 days')
+
+    expect(trigger.getAttribute('aria-expanded')).toBe('false')
+    expect(trigger.getAttribute('aria-controls')).toBe(panel.id)
+    expect(panel.getAttribute('aria-labelledby')).toBe(trigger.id)
+    expect(panel.hidden).toBe(true)
+
+    await userEvent.click(trigger)
+    expect(trigger.getAttribute('aria-expanded')).toBe('true')
+    expect(panel.hidden).toBe(false)
+    expect(screen.getByRole('button', { name: 'Details', expanded: true })).toBe(trigger)
+  })
+
+  it('gives every component its own ids', () => {
+    render(<><Disclosure /><Disclosure /></>)
+    const [first, second] = screen.getAllByText('Details')
+    expect(first.id).not.toBe(second.id)
+  })
+
+  it('uses the same ids on the server and the client', () => {
+    const html = renderToString(<Disclosure />)
+    const consoleSpy = jest.spyOn(console, 'error')
+    const container = document.createElement('div')
+    container.innerHTML = html
+    document.body.appendChild(container)
+    const serverId = container.querySelector('button')!.id
+
+    render(<Disclosure />, { container, hydrate: true })
+    expect(screen.getByText('Details').id).toBe(serverId)
+    expect(consoleSpy).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+    container.remove()
+  })
+
+  it('derives ids from the names of global nouns', () => {
+    const panel = globalNouns.get('ui:filters')
+    expect(getTriggerProps(panel).id).toBe('toggles-ui-filters-trigger')
+    expect(getPanelProps(panel).id).toBe('toggles-ui-filters-panel')
+    expect(getTriggerProps(anyOf(panel)).id).toBe('toggles-anyOf-ui-filters-trigger')
+  })
+
+  it('describes dialogs', () => {
+    const dialog = globalNouns.get('ui:settings')
+    expect(getTriggerProps(dialog, { popup: 'dialog' })).toMatchObject({ 'aria-haspopup': 'dialog' })
+    expect(getPanelProps(dialog, { role: 'dialog' })).toMatchObject({ role: 'dialog', 'aria-modal': true })
+    expect(getPanelProps(dialog)).not.toHaveProperty('role')
+  })
+
+  it('renders switches and toggle buttons', async () => {
+    function Settings() {
+      const wifi = useToggle(true)
+      const bold = useToggle(false)
+      return (
+        <>
+          <button {...getSwitchProps(wifi)}>Wi-Fi</button>
+          <button {...getToggleButtonProps(bold)}>Bold</button>
+        </>
+      )
+    }
+
+    render(<Settings />)
+    const wifi = screen.getByRole('switch', { name: 'Wi-Fi' })
+    expect(wifi.getAttribute('aria-checked')).toBe('true')
+    await userEvent.click(wifi)
+    expect(wifi.getAttribute('aria-checked')).toBe('false')
+
+    const bold = screen.getByRole('button', { name: 'Bold', pressed: false })
+    await userEvent.click(bold)
+    expect(bold.getAttribute('aria-pressed')).toBe('true')
+  })
+
+  it('runs the caller handler first and respects preventDefault', async () => {
+    const onClick = jest.fn((event: React.MouseEvent) => event.preventDefault())
+    function Locked() {
+      const { details } = useToggles()
+      return <button {...getTriggerProps(details, { onClick })}>Details</button>
+    }
+
+    render(<Locked />)
+    await userEvent.click(screen.getByText('Details'))
+    expect(onClick).toHaveBeenCalled()
+    expect(screen.getByText('Details').getAttribute('aria-expanded')).toBe('false')
+  })
+})
@@ -0,0 +1,159 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, open, close, collapse, hide, batch, globalNouns } from '../index'
+
+describe('Batched updates', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('notifies each subscriber once for several changes', () => {
+    const drawer = globalNouns.get('drawer:drawer', true)
+    const sections = globalNouns.get('drawer:sections', true)
+    const overlay = globalNouns.get('drawer:overlay', true)
+
+    const subscriber = jest.fn()
+    ;['drawer:drawer', 'drawer:sections', 'drawer:overlay'].forEach(key => globalNouns.subscribe(key, subscriber))
+
+    batch(() => {
+      close(drawer)
+      collapse(sections)
+      hide(overlay)
+      expect(subscriber).not.toHaveBeenCalled()
+    })
+
+    expect(subscriber).toHaveBeenCalledTimes(1)
+    expect([drawer.isOpen, sections.isExpanded, overlay.isShown]).toEqual([false, false, false])
+  })
+
+  it('never renders intermediate states', async () => {
+    const seen: string[] = []
+
+    function Drawer() {
+      const { drawer, sections, overlay } = useToggles('drawer', true, true, true)
+      seen.push(`${drawer.isOpen} ${sections.isExpanded} ${overlay.isShown}`)
+      return (
+        <button onClick={() => batch(() => {
+          close(drawer)
+          collapse(sections)
+          hide(overlay)
+        })}>Close</button>
+      )
+    }
+
+    render(<Drawer />)
+    await userEvent.click(screen.getByText('Close'))
+    expect(seen).toEqual(['true true true', 'false false false'])
+  })
+
+  it('lets code inside the batch read the new values', () => {
+    const panel = globalNouns.get('ui:panel')
+    batch(() => {
+      open(panel)
+      expect(panel.isOpen).toBe(true)
+    })
+  })
+
+  it('rolls back every change when the transaction throws', () => {
+    const drawer = globalNouns.get('drawer:drawer', true)
+    const overlay = globalNouns.get('drawer:overlay', true)
+    const subscriber = jest.fn()
+    const listener = jest.fn()
+    globalNouns.subscribe('drawer:drawer', subscriber)
+    globalNouns.onChange(listener)
+
+    expect(() => batch(() => {
+      close(drawer)
+      hide(overlay)
+      throw new Error('save failed')
+    })).toThrow('save failed')
+
+    expect(drawer.isOpen).toBe(true)
+    expect(overlay.isShown).toBe(true)
+    expect(subscriber).not.toHaveBeenCalled()
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('skips notifications for nouns that ended where they started', () => {
+    const panel = globalNouns.get('ui:panel')
+    const subscriber = jest.fn()
+    globalNouns.subscribe('ui:panel', subscriber)
+
+    batch(() => {
+      open(panel)
+      close(panel)
+    })
+    expect(subscriber).not.toHaveBeenCalled()
+  })
+
+  it('reports the change with the value from before the batch', () => {
+    const panel = globalNouns.get('ui:panel')
+    const listener = jest.fn()
+    globalNouns.onChange(listener)
+
+    batch(() => {
+      open(panel)
+      close(panel)
+      open(panel)
+    })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({ key: 'ui:panel', previous: false, value: true, verb: 'open' })
+  })
+
+  it('commits nested batches with the outer batch', () => {
+    const panel = globalNouns.get('ui:panel')
+    const drawer = globalNouns.get('ui:drawer')
+    const subscriber = jest.fn()
+    globalNouns.subscribe('ui:panel', subscriber)
+
+    batch(() => {
+      batch(() => open(panel))
+      expect(subscriber).not.toHaveBeenCalled()
+
+      // a failed inner batch only undoes its own changes
+      try {
+        batch(() => {
+          open(drawer)
+          close(panel)
+          throw new Error('inner')
+        })
+      } catch { }
+      expect(panel.isOpen).toBe(true)
+      expect(drawer.isOpen).toBe(false)
+    })
+
+    expect(subscriber).toHaveBeenCalledTimes(1)
+    expect(panel.isOpen).toBe(true)
+  })
+
+  it('rolls back local nouns too', () => {
+    let nouns: Record<string, any> = {}
+    function Menu() {
+      nouns = useToggles(true, false)
+      return <span data-testid="menu">{`${nouns.menu.isOpen} ${nouns.submenu.isOpen}`}</span>
+    }
+
+    render(<Menu />)
+    act(() => {
+      try {
+        batch(() => {
+          close(nouns.menu)
+          open(nouns.submenu)
+          throw new Error('nope')
+        })
+      } catch { }
+    })
+    expect(screen.getByTestId('menu').textContent).toBe('true false')
+
+    act(() => batch(() => {
+      close(nouns.menu)
+      open(nouns.submenu)
+    }))
+    expect(screen.getByTestId('menu').textContent).toBe('false true')
+  })
+
+  it('returns the result of the callback', () => {
+    expect(batch(() => 42)).toBe(42)
+  })
+})
@@ -0,0 +1,147 @@
+import React, { useLayoutEffect, useState } from 'react'
+import { render, screen, act } from '@testing-library/react'
+import { useToggles, open, close, globalNouns } from '../index'
+import { createNounSubscription } from '../src/subscription'
+
+jest.mock('scheduler', () => require('scheduler/unstable_mock'))
+const Scheduler = require('scheduler')
+
+// React 18+ API, missing from the @types/react version used here
+const startTransition: (scope: () => void) => void = (React as any).startTransition
+
+describe('Concurrent rendering', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('never commits torn reads of a noun changed while a transition is paused', async () => {
+    const commits: string[][] = []
+    let rendered: string[] = []
+
+    function Reader({ index }: { index: number }) {
+      const { panel } = useToggles('tearing')
+      const value = panel.isOpen ? 'open' : 'closed'
+      Scheduler.log(`render ${index}`)
+      useLayoutEffect(() => { rendered.push(value) })
+      return <span>{value}</span>
+    }
+
+    let rerenderAll: () => void = () => { }
+    function App() {
+      const [, setCount] = useState(0)
+      rerenderAll = () => setCount(count => count + 1)
+      useLayoutEffect(() => {
+        commits.push(rendered)
+        rendered = []
+      })
+      return <>{[0, 1, 2, 3].map(index => <Reader key={index} index={index} />)}</>
+    }
+
+    render(<App />)
+    Scheduler.unstable_clearLog()
+    const panel = globalNouns.get('tearing:panel')
+
+    // drive the scheduler by hand so the transition can yield part way through
+    const actEnvironment = (globalThis as any).IS_REACT_ACT_ENVIRONMENT
+    ;(globalThis as any).IS_REACT_ACT_ENVIRONMENT = false
+    try {
+      startTransition(() => rerenderAll())
+      await Promise.resolve()
+      Scheduler.unstable_flushNumberOfYields(2)
+      expect(Scheduler.unstable_clearLog()).toEqual(['render 0', 'render 1'])
+
+      // the noun changes between two components of the paused render
+      startTransition(() => open(panel))
+      await Promise.resolve()
+      Scheduler.unstable_flushAllWithoutAsserting()
+      await Promise.resolve()
+    } finally {
+      (globalThis as any).IS_REACT_ACT_ENVIRONMENT = actEnvironment
+    }
+
+    commits.forEach(values => expect(new Set(values).size).toBeLessThanOrEqual(1))
+    expect(screen.getAllByText(/open|closed/).map(node => node.textContent)).toEqual(['open', 'open', 'open', 'open'])
+  })
+
+  it('only moves the snapshot when a noun the component read changes', () => {
+    const subscription = createNounSubscription(globalNouns)
+    globalNouns.get('snapshot:panel')
+    subscription.track('snapshot:panel')
+    const unsubscribe = subscription.subscribe(() => { })
+    const before = subscription.getSnapshot()
+
+    open(globalNouns.get('elsewhere:drawer'))
+    expect(subscription.getSnapshot()).toBe(before)
+
+    open(globalNouns.get('snapshot:panel'))
+    expect(subscription.getSnapshot()).not.toBe(before)
+    unsubscribe()
+  })
+
+  it('catches changes made between the render and the subscription', () => {
+    const subscription = createNounSubscription(globalNouns)
+    globalNouns.get('snapshot:panel')
+    subscription.track('snapshot:panel')
+    const rendered = subscription.getSnapshot()
+
+    open(globalNouns.get('snapshot:panel'))
+    const unsubscribe = subscription.subscribe(() => { })
+    expect(subscription.getSnapshot()).not.toBe(rendered)
+    unsubscribe()
+  })
+
+  it('shows updates made inside a transition', () => {
+    function Panel() {
+      const { panel } = useToggles('transition')
+      return <span data-testid="panel">{panel.isOpen ? 'open' : 'closed'}</span>
+    }
+
+    render(<Panel />)
+    const panel = globalNouns.get('transition:panel')
+    act(() => { startTransition(() => open(panel)) })
+    expect(screen.getByTestId('panel').textContent).toBe('open')
+  })
+
+  it('does not leak subscriptions under StrictMode', () => {
+    function Panel() {
+      const { panel, drawer } = useToggles('strict')
+      return <span data-testid="panel">{panel.isOpen && drawer.isOpen ? 'open' : 'closed'}</span>
+    }
+
+    const { unmount } = render(<React.StrictMode><Panel /><Panel /></React.StrictMode>)
+    const entries = (globalNouns as any).toggles
+    expect(entries.get('strict:panel').refCount).toBe(2)
+    expect(entries.get('strict:panel').subscribers.size).toBe(2)
+
+    act(() => {
+      open(globalNouns.get('strict:panel'))
+      open(globalNouns.get('strict:drawer'))
+    })
+    expect(screen.getAllByTestId('panel').map(node => node.textContent)).toEqual(['open', 'open'])
+
+    unmount()
+    expect(entries.get('strict:panel').refCount).toBe(0)
+    expect(entries.get('strict:panel').subscribers.size).toBe(0)
+    expect(entries.get('strict:drawer').subscribers.size).toBe(0)
+  })
+
+  it('subscribes to nouns first read after mount', () => {
+    function Details({ showExtra }: { showExtra: boolean }) {
+      const nouns = useToggles('late')
+      return <span data-testid="extra">{showExtra && nouns.extra.isOpen ? 'open' : 'closed'}</span>
+    }
+
+    const { rerender, unmount } = render(<Details showExtra={false} />)
+    rerender(<Details showExtra />)
+    expect(screen.getByTestId('extra').textContent).toBe('closed')
+
+    act(() => open(globalNouns.get('late:extra')))
+    expect(screen.getByTestId('extra').textContent).toBe('open')
+
+    act(() => close(globalNouns.get('late:extra')))
+    expect(screen.getByTestId('extra').textContent).toBe('closed')
+
+    unmount()
+    expect((globalNouns as any).toggles.get('late:extra').subscribers.size).toBe(0)
+  })
+})
@@ -0,0 +1,86 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, defineVerbs, verbs, globalNouns, addMiddleware } from '../index'
+import { nounState } from '../utils'
+
+const { pin, unpin } = defineVerbs({ pin: 'unpin' }, { positive: 'Pinned', negative: 'Unpinned' })
+const { mute, unmute, select, deselect } = defineVerbs({ mute: 'unmute', select: 'deselect' })
+
+describe('Custom verbs', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('adds the named states to every noun', async () => {
+    function Message() {
+      const { message } = useToggles('inbox')
+      return (
+        <>
+          <span data-testid="message">{`${message.isPinned} ${message.isUnpinned}`}</span>
+          <button onClick={() => pin(message)}>Pin</button>
+          <button onClick={() => unpin(message)}>Unpin</button>
+        </>
+      )
+    }
+
+    render(<Message />)
+    expect(screen.getByTestId('message').textContent).toBe('false true')
+    await userEvent.click(screen.getByText('Pin'))
+    expect(screen.getByTestId('message').textContent).toBe('true false')
+    await userEvent.click(screen.getByText('Unpin'))
+    expect(screen.getByTestId('message').textContent).toBe('false true')
+  })
+
+  it('guesses state names when none are given', () => {
+    expect(nounState).toMatchObject({ isMuted: true, isUnmuted: false, isSelected: true, isDeselected: false })
+
+    const track = globalNouns.get('player:track')
+    mute(track)
+    select(track)
+    expect([track.isMuted, track.isSelected]).toEqual([true, true])
+    unmute(track)
+    deselect(track)
+    expect([track.isUnmuted, track.isDeselected]).toEqual([true, true])
+  })
+
+  it('passes the verb name to middleware', () => {
+    const seen = jest.fn((_, next) => next())
+    const remove = addMiddleware(seen)
+    pin(globalNouns.get('inbox:message'))
+    remove()
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ verb: 'pin', requested: true }), expect.any(Function))
+  })
+
+  it('joins the built-in verbs', () => {
+    expect((verbs as Record<string, unknown>).pin).toBe(pin)
+  })
+
+  it('treats custom verbs as reserved noun names', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+    function Invalid() {
+      const { pin } = useToggles('inbox')
+      return <span>{String(pin.isOpen)}</span>
+    }
+    expect(() => render(<Invalid />)).toThrow('Invalid noun name "pin": noun names must not conflict with verb names')
+    consoleSpy.mockRestore()
+  })
+
+  it('rejects pairs that clash with existing verbs or states', () => {
+    expect(() => defineVerbs({ open: 'shut' })).toThrow('Verb "open" is already defined')
+    expect(() => defineVerbs({ pin: 'drop' })).toThrow('Verb "pin" is already defined')
+    expect(() => defineVerbs({ seal: 'unseal' }, { positive: 'Closed', negative: 'Unsealed' })).toThrow(
+      'Noun state "isClosed" is already defined as negative'
+    )
+    // nothing from the failed definition was registered
+    expect('seal' in verbs).toBe(false)
+    expect('isUnsealed' in nounState).toBe(false)
+  })
+
+  it('allows defining the same pair again', () => {
+    const again = defineVerbs({ pin: 'unpin' }, { positive: 'Pinned', negative: 'Unpinned' })
+    const message = globalNouns.get('inbox:message')
+    again.pin(message)
+    expect(message.isPinned).toBe(true)
+  })
+})
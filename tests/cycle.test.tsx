@@ -0,0 +1,140 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useCycle, getCycle, next, prev, set, globalNouns, createToggleStore, addMiddleware } from '../index'
+
+describe('Cycles', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function ThemeSwitch() {
+    const theme = useCycle('settings', 'theme', ['light', 'dark', 'system'], 'system')
+    return (
+      <>
+        <span data-testid="theme">{`${theme.value} ${theme.isDark}`}</span>
+        <button onClick={() => next(theme)}>Next</button>
+        <button onClick={() => prev(theme)}>Prev</button>
+        <button onClick={() => set(theme, 'dark')}>Dark</button>
+      </>
+    )
+  }
+
+  it('starts at the initial value', () => {
+    render(<ThemeSwitch />)
+    expect(screen.getByTestId('theme').textContent).toBe('system false')
+    // or the first one
+    expect(getCycle('ui', 'view', ['grid', 'list']).value).toBe('grid')
+  })
+
+  it('cycles forwards and backwards, wrapping around', async () => {
+    render(<ThemeSwitch />)
+
+    await userEvent.click(screen.getByText('Next'))
+    expect(screen.getByTestId('theme').textContent).toBe('light false')
+    await userEvent.click(screen.getByText('Prev'))
+    await userEvent.click(screen.getByText('Prev'))
+    expect(screen.getByTestId('theme').textContent).toBe('dark true')
+  })
+
+  it('sets a value directly', async () => {
+    render(<ThemeSwitch />)
+    await userEvent.click(screen.getByText('Dark'))
+    expect(screen.getByTestId('theme').textContent).toBe('dark true')
+  })
+
+  it('shares state between components and the imperative API', () => {
+    const consoleSpy = jest.spyOn(console, 'error')
+    render(<ThemeSwitch />)
+    const theme = getCycle('settings', 'theme', ['light', 'dark', 'system'])
+
+    act(() => set(theme, 'light'))
+    expect(screen.getByTestId('theme').textContent).toBe('light false')
+    expect(theme.isLight).toBe(true)
+    expect(consoleSpy).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+
+  it('stores one boolean noun per value, changed in a single batch', () => {
+    const view = getCycle('ui', 'view', ['grid', 'list', 'table'], 'grid')
+    const listener = jest.fn()
+    globalNouns.onChange(listener)
+
+    next(view)
+    expect(globalNouns.snapshot()).toEqual({ 'ui:view=grid': false, 'ui:view=list': true, 'ui:view=table': false })
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledWith({ key: 'ui:view=list', previous: false, value: true, verb: 'next' })
+  })
+
+  it('goes through middleware', () => {
+    const remove = addMiddleware(({ verb }, next) => {
+      if (verb !== 'next') next()
+    })
+    const sort = getCycle('table', 'sort', ['none', 'asc', 'desc'])
+    next(sort)
+    expect(sort.value).toBe('none')
+    set(sort, 'desc')
+    expect(sort.value).toBe('desc')
+    remove()
+  })
+
+  it('asks middleware once per step and changes every member or none', async () => {
+    const seen: string[] = []
+    let allow = false
+    const remove = addMiddleware(async ({ name, requested }, next) => {
+      seen.push(`${name} ${requested}`)
+      await Promise.resolve()
+      if (allow) next()
+    })
+    const theme = getCycle('settings', 'theme', ['light', 'dark', 'system'], 'light')
+
+    await next(theme)
+    expect(seen).toEqual(['theme=dark true'])
+    expect(globalNouns.snapshot()).toEqual({ 'settings:theme=light': true, 'settings:theme=dark': false, 'settings:theme=system': false })
+
+    allow = true
+    await next(theme)
+    expect(theme.value).toBe('dark')
+    expect(globalNouns.snapshot()).toEqual({ 'settings:theme=light': false, 'settings:theme=dark': true, 'settings:theme=system': false })
+    remove()
+  })
+
+  it('warns about values outside the cycle', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    const sort = getCycle('table', 'sort', ['none', 'asc', 'desc'])
+    set(sort, 'sideways' as any)
+    expect(consoleSpy).toHaveBeenCalledWith('Cannot set cycle table:sort to "sideways": expected one of none, asc, desc')
+    expect(sort.value).toBe('none')
+    consoleSpy.mockRestore()
+  })
+
+  it('rejects values that would break the noun keys', () => {
+    expect(() => getCycle('ui', 'mode', ['a:b', 'c'])).toThrow('values must not contain ":"')
+  })
+
+  it('is kept alive while mounted and evicted afterwards', () => {
+    jest.useFakeTimers()
+    const store = createToggleStore({ ttl: 1000, cleanupInterval: 1000 })
+    const { TogglesProvider } = require('../index')
+
+    const { unmount } = render(<TogglesProvider store={store}><ThemeSwitch /></TogglesProvider>)
+    jest.advanceTimersByTime(5000)
+    expect(store.has('settings:theme=dark')).toBe(true)
+
+    unmount()
+    jest.advanceTimersByTime(5000)
+    expect(store.has('settings:theme=dark')).toBe(false)
+    store.destroy()
+    jest.useRealTimers()
+  })
+
+  it('infers the allowed values', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    const theme = getCycle('settings', 'theme', ['light', 'dark'])
+    // @ts-expect-error - not one of the values
+    set(theme, 'blue')
+    // @ts-expect-error - no such predicate
+    expect(theme.isBlue).toBeUndefined()
+    consoleSpy.mockRestore()
+  })
+})
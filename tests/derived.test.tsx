@@ -0,0 +1,117 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useDerived, open, close, check, toggle, anyOf, allOf, not, select, globalNouns, createToggleStore } from '../index'
+
+describe('Derived nouns', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('combines nouns across namespaces', () => {
+    const left = globalNouns.get('ui:left')
+    const right = globalNouns.get('layout:right')
+    const anyPanel = anyOf(left, right)
+    const bothPanels = allOf(left, right)
+    const noPanel = not(anyPanel)
+
+    expect([anyPanel.isOpen, bothPanels.isOpen, noPanel.isOpen]).toEqual([false, false, true])
+    open(left)
+    expect([anyPanel.isOpen, bothPanels.isOpen, noPanel.isOpen]).toEqual([true, false, false])
+    open(right)
+    expect([anyPanel.isOpen, bothPanels.isOpen, noPanel.isOpen]).toEqual([true, true, false])
+  })
+
+  it('works with custom selectors', () => {
+    const terms = globalNouns.get('form:terms')
+    const marketing = globalNouns.get('form:marketing')
+    const onlyTerms = select([terms, marketing], (terms, marketing) => terms && !marketing)
+
+    check(terms)
+    expect(onlyTerms.isActive).toBe(true)
+    check(marketing)
+    expect(onlyTerms.isActive).toBe(false)
+  })
+
+  it('derives from the nouns a component already reads', async () => {
+    function Form() {
+      const { terms, privacy } = useToggles('form')
+      const canSubmit = allOf(terms, privacy)
+      return (
+        <>
+          <button onClick={() => toggle(terms)}>Terms</button>
+          <button onClick={() => toggle(privacy)}>Privacy</button>
+          <button disabled={!canSubmit.isEnabled}>Submit</button>
+        </>
+      )
+    }
+
+    render(<Form />)
+    expect((screen.getByText('Submit') as HTMLButtonElement).disabled).toBe(true)
+    await userEvent.click(screen.getByText('Terms'))
+    await userEvent.click(screen.getByText('Privacy'))
+    expect((screen.getByText('Submit') as HTMLButtonElement).disabled).toBe(false)
+  })
+
+  it('rerenders only when the derived value changes', () => {
+    const left = globalNouns.get('ui:left')
+    const right = globalNouns.get('ui:right')
+    const anyPanel = anyOf(left, right)
+    let renders = 0
+
+    function Backdrop() {
+      renders++
+      const visible = useDerived(anyPanel)
+      return <span data-testid="backdrop">{visible.isShown ? 'shown' : 'hidden'}</span>
+    }
+
+    render(<Backdrop />)
+    act(() => { open(left) })
+    expect(screen.getByTestId('backdrop').textContent).toBe('shown')
+    expect(renders).toBe(2)
+
+    // still open, so nothing to render
+    act(() => { open(right) })
+    act(() => { close(left) })
+    expect(renders).toBe(2)
+
+    act(() => { close(right) })
+    expect(screen.getByTestId('backdrop').textContent).toBe('hidden')
+    expect(renders).toBe(3)
+  })
+
+  it('keeps its sources from being evicted while subscribed', () => {
+    jest.useFakeTimers()
+    const store = createToggleStore({ ttl: 1000, cleanupInterval: 1000 })
+    const derived = not(store.get('ui:left'))
+
+    function Hint() {
+      useDerived(derived)
+      return null
+    }
+    const { unmount } = render(<Hint />)
+    jest.advanceTimersByTime(5000)
+    expect(store.has('ui:left')).toBe(true)
+
+    unmount()
+    jest.advanceTimersByTime(5000)
+    expect(store.has('ui:left')).toBe(false)
+
+    store.destroy()
+    jest.useRealTimers()
+  })
+
+  it('warns instead of applying verbs', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    const left = globalNouns.get('ui:left')
+    const anyPanel = anyOf(left, globalNouns.get('ui:right'))
+
+    open(anyPanel)
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Cannot open derived noun anyOf(ui:left, ui:right): it is read-only, change the nouns it is derived from instead'
+    )
+    expect(consoleSpy.mock.calls[0][0]).not.toMatch(/No setter/)
+    expect(left.isOpen).toBe(false)
+    consoleSpy.mockRestore()
+  })
+})
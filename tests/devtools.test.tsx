@@ -0,0 +1,127 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, open, toggle, close, globalNouns, connectDevtools, type DevtoolsConnection } from '../index'
+
+const createExtension = () => {
+  let listener: (message: any) => void = () => { }
+  const connection: DevtoolsConnection & { [K in 'init' | 'send' | 'subscribe']: jest.Mock } = {
+    init: jest.fn(),
+    send: jest.fn(),
+    subscribe: jest.fn((callback: (message: any) => void) => {
+      listener = callback
+      return jest.fn()
+    })
+  }
+  return {
+    connection,
+    extension: { connect: jest.fn(() => connection) },
+    dispatch: (type: string, state?: object) => listener({ type: 'DISPATCH', payload: { type }, state: state && JSON.stringify(state) })
+  }
+}
+
+describe('Devtools', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('reports each change with its key, old and new value and verb', async () => {
+    const { connection, extension } = createExtension()
+    globalNouns.get('ui:panel')
+    connectDevtools(globalNouns, { extension, name: 'app' })
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: 'app' })
+    expect(connection.init).toHaveBeenCalledWith({ 'ui:panel': false })
+
+    function Panel() {
+      const { panel } = useToggles('ui')
+      return <button onClick={() => toggle(panel)}>Toggle</button>
+    }
+    render(<Panel />)
+    await userEvent.click(screen.getByText('Toggle'))
+
+    expect(connection.send).toHaveBeenCalledWith(
+      { type: 'toggle ui:panel', key: 'ui:panel', previous: false, value: true, verb: 'toggle' },
+      { 'ui:panel': true }
+    )
+
+    act(() => close(globalNouns.get('ui:panel')))
+    expect(connection.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'close ui:panel', previous: true, value: false, verb: 'close' }),
+      { 'ui:panel': false }
+    )
+  })
+
+  it('time-travels to a previous snapshot', () => {
+    const { connection, extension, dispatch } = createExtension()
+    const panel = globalNouns.get('ui:panel')
+    const drawer = globalNouns.get('ui:drawer')
+    connectDevtools(globalNouns, { extension })
+
+    function Layout() {
+      const { panel, drawer } = useToggles('ui')
+      return <span data-testid="layout">{`${panel.isOpen} ${drawer.isOpen}`}</span>
+    }
+    render(<Layout />)
+
+    act(() => {
+      open(panel)
+      open(drawer)
+    })
+    expect(screen.getByTestId('layout').textContent).toBe('true true')
+    connection.send.mockClear()
+
+    act(() => dispatch('JUMP_TO_STATE', { 'ui:panel': true, 'ui:drawer': false }))
+    expect(screen.getByTestId('layout').textContent).toBe('true false')
+    // jumping around does not record new actions
+    expect(connection.send).not.toHaveBeenCalled()
+
+    act(() => dispatch('RESET'))
+    expect(screen.getByTestId('layout').textContent).toBe('false false')
+    expect(connection.init).toHaveBeenLastCalledWith({ 'ui:panel': false, 'ui:drawer': false })
+  })
+
+  it('resets nouns created after the snapshot when travelling back to it', () => {
+    const { extension, dispatch } = createExtension()
+    const sidebar = globalNouns.get('ui:sidebar')
+    connectDevtools(globalNouns, { extension })
+
+    open(sidebar)
+    const palette = globalNouns.get('ui:palette')
+    const inspector = globalNouns.get('ui:inspector', true)
+    open(palette)
+    close(inspector)
+
+    dispatch('JUMP_TO_STATE', { 'ui:sidebar': false })
+    expect(globalNouns.snapshot()).toEqual({ 'ui:sidebar': false, 'ui:palette': false, 'ui:inspector': true })
+  })
+
+  it('commits the current state as the new starting point', () => {
+    const { connection, extension, dispatch } = createExtension()
+    const panel = globalNouns.get('ui:panel')
+    connectDevtools(globalNouns, { extension })
+
+    open(panel)
+    dispatch('COMMIT')
+    expect(connection.init).toHaveBeenLastCalledWith({ 'ui:panel': true })
+
+    close(panel)
+    dispatch('RESET')
+    expect(panel.isOpen).toBe(true)
+  })
+
+  it('stops reporting once disconnected', () => {
+    const { connection, extension } = createExtension()
+    const disconnect = connectDevtools(globalNouns, { extension })
+    disconnect()
+
+    open(globalNouns.get('ui:panel'))
+    expect(connection.send).not.toHaveBeenCalled()
+  })
+
+  it('does nothing when the extension is not installed', () => {
+    const disconnect = connectDevtools()
+    expect(() => open(globalNouns.get('ui:panel'))).not.toThrow()
+    disconnect()
+  })
+})
@@ -0,0 +1,134 @@
+import React, { useRef } from 'react'
+import { render, screen, act, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useDismissable, toggle, open, hide, globalNouns, addMiddleware, type Noun } from '../index'
+
+const { createPortal } = require('react-dom')
+
+describe('Dismissable', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Dropdown({ noun, label, children, portal = false }: { noun: Noun; label: string; children?: React.ReactNode; portal?: boolean }) {
+    const trigger = useRef<HTMLButtonElement>(null)
+    const menu = useRef<HTMLDivElement>(null)
+    useDismissable(noun, [trigger, menu])
+    const content = noun.isOpen && <div ref={menu} data-testid={`${label}-menu`}>{label} items{children}</div>
+    return (
+      <>
+        <button ref={trigger} onClick={() => toggle(noun)}>{label}</button>
+        {portal ? content && createPortal(content, document.body) : content}
+      </>
+    )
+  }
+
+  function Page() {
+    const { account, submenu } = useToggles('ui')
+    return (
+      <>
+        <p>Outside</p>
+        <Dropdown noun={account} label="Account">
+          <Dropdown noun={submenu} label="More" portal />
+        </Dropdown>
+      </>
+    )
+  }
+
+  const isOpen = (label: string) => !!screen.queryByTestId(`${label}-menu`)
+
+  it('closes on a press outside', async () => {
+    render(<Page />)
+    await userEvent.click(screen.getByText('Account'))
+    expect(isOpen('Account')).toBe(true)
+
+    await userEvent.click(screen.getByText('Account items'))
+    expect(isOpen('Account')).toBe(true)
+
+    await userEvent.click(screen.getByText('Outside'))
+    expect(isOpen('Account')).toBe(false)
+  })
+
+  it('toggles from the trigger without closing and reopening', async () => {
+    render(<Page />)
+    await userEvent.click(screen.getByText('Account'))
+    await userEvent.click(screen.getByText('Account'))
+    expect(isOpen('Account')).toBe(false)
+  })
+
+  it('closes on Escape', async () => {
+    render(<Page />)
+    await userEvent.click(screen.getByText('Account'))
+    await userEvent.keyboard('{Escape}')
+    expect(isOpen('Account')).toBe(false)
+  })
+
+  it('closes nested layers from the inside out', async () => {
+    render(<Page />)
+    await userEvent.click(screen.getByText('Account'))
+    await userEvent.click(screen.getByText('More'))
+    expect([isOpen('Account'), isOpen('More')]).toEqual([true, true])
+
+    // the submenu is portaled outside the account menu, pressing inside it keeps both open
+    await userEvent.click(screen.getByText('More items'))
+    expect([isOpen('Account'), isOpen('More')]).toEqual([true, true])
+
+    await userEvent.keyboard('{Escape}')
+    expect([isOpen('Account'), isOpen('More')]).toEqual([true, false])
+
+    await userEvent.click(screen.getByText('More'))
+    await userEvent.click(screen.getByText('Outside'))
+    expect([isOpen('Account'), isOpen('More')]).toEqual([true, false])
+    await userEvent.click(screen.getByText('Outside'))
+    expect(isOpen('Account')).toBe(false)
+  })
+
+  it('closes when focus moves into an iframe', () => {
+    render(<><Page /><iframe title="ad" /></>)
+    act(() => { open(globalNouns.get('ui:account')) })
+
+    act(() => {
+      screen.getByTitle('ad').focus()
+      fireEvent.blur(window)
+    })
+    expect(isOpen('Account')).toBe(false)
+  })
+
+  it('ignores the window losing focus to another app', () => {
+    render(<Page />)
+    act(() => { open(globalNouns.get('ui:account')) })
+    act(() => { fireEvent.blur(window) })
+    expect(isOpen('Account')).toBe(true)
+  })
+
+  it('uses the given verb and options', async () => {
+    const verbsSeen: (string | undefined)[] = []
+    const remove = addMiddleware(({ verb }, next) => {
+      verbsSeen.push(verb)
+      next()
+    })
+    function Popover() {
+      const { popover } = useToggles('ui', true)
+      const panel = useRef<HTMLDivElement>(null)
+      useDismissable(popover, [panel], { verb: hide, escape: false })
+      return popover.isShown ? <div ref={panel}>Popover</div> : null
+    }
+
+    render(<><p>Outside</p><Popover /></>)
+    await userEvent.keyboard('{Escape}')
+    expect(screen.queryByText('Popover')).not.toBeNull()
+
+    await userEvent.click(screen.getByText('Outside'))
+    expect(screen.queryByText('Popover')).toBeNull()
+    expect(verbsSeen).toEqual(['hide'])
+    remove()
+  })
+
+  it('stops listening once unmounted', async () => {
+    const { unmount } = render(<Page />)
+    act(() => { open(globalNouns.get('ui:account')) })
+    unmount()
+    await userEvent.keyboard('{Escape}')
+    expect(globalNouns.get('ui:account').isOpen).toBe(true)
+  })
+})
@@ -0,0 +1,190 @@
+import React, { useRef } from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useToggleEffect, useTriState, anyOf, open, close, check, toggle, batch, setIndeterminate, globalNouns } from '../index'
+
+describe('Toggle effects', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('focuses an input once the search bar has rendered open', async () => {
+    function Search() {
+      const { search } = useToggles('ui')
+      const input = useRef<HTMLInputElement>(null)
+      useToggleEffect(search, { onActivate: () => input.current?.focus() })
+      return (
+        <>
+          <button onClick={() => open(search)}>Search</button>
+          {search.isOpen && <input ref={input} aria-label="query" />}
+        </>
+      )
+    }
+
+    render(<Search />)
+    await userEvent.click(screen.getByText('Search'))
+    expect(document.activeElement).toBe(screen.getByLabelText('query'))
+  })
+
+  it('passes the previous value and the verb', async () => {
+    const onChange = jest.fn()
+    const onDeactivate = jest.fn()
+    function Modal() {
+      const { modal } = useToggles('ui', true)
+      useToggleEffect(modal, { onChange, onDeactivate })
+      return <button onClick={() => close(modal)}>Close</button>
+    }
+
+    render(<Modal />)
+    await userEvent.click(screen.getByText('Close'))
+    expect(onDeactivate).toHaveBeenCalledWith({ previous: true, value: false, verb: 'close' })
+    expect(onChange).toHaveBeenCalledWith({ previous: true, value: false, verb: 'close' })
+  })
+
+  it('fires once per real transition, not on rerenders or repeated verbs', async () => {
+    const onActivate = jest.fn()
+    function Panel() {
+      const { panel, other } = useToggles('ui')
+      useToggleEffect(panel, { onActivate })
+      return (
+        <>
+          <button onClick={() => open(panel)}>Open</button>
+          <button onClick={() => toggle(other)}>Other</button>
+        </>
+      )
+    }
+
+    render(<Panel />)
+    await userEvent.click(screen.getByText('Open'))
+    await userEvent.click(screen.getByText('Open'))
+    await userEvent.click(screen.getByText('Other'))
+    expect(onActivate).toHaveBeenCalledTimes(1)
+  })
+
+  it('follows namespaced nouns changed by another component', async () => {
+    const onActivate = jest.fn()
+    function Listener() {
+      const { drawer } = useToggles('ui')
+      useToggleEffect(drawer, { onActivate })
+      return null
+    }
+    function Trigger() {
+      const { drawer } = useToggles('ui')
+      return <button onClick={() => open(drawer)}>Drawer</button>
+    }
+
+    render(<><Listener /><Trigger /></>)
+    await userEvent.click(screen.getByText('Drawer'))
+    expect(onActivate).toHaveBeenCalledWith({ previous: false, value: true, verb: 'open' })
+  })
+
+  it('works with local nouns', async () => {
+    const onChange = jest.fn()
+    function Menu() {
+      const { menu } = useToggles()
+      useToggleEffect(menu, { onChange })
+      return <button onClick={() => toggle(menu)}>Menu</button>
+    }
+
+    render(<Menu />)
+    await userEvent.click(screen.getByText('Menu'))
+    await userEvent.click(screen.getByText('Menu'))
+    expect(onChange.mock.calls).toEqual([
+      [{ previous: false, value: true, verb: 'toggle' }],
+      [{ previous: true, value: false, verb: 'toggle' }]
+    ])
+  })
+
+  it('skips batches that end where they started', () => {
+    const onChange = jest.fn()
+    function Panel() {
+      const { panel } = useToggles('ui')
+      useToggleEffect(panel, { onChange })
+      return null
+    }
+
+    render(<Panel />)
+    const panel = globalNouns.get('ui:panel')
+    act(() => batch(() => {
+      open(panel)
+      close(panel)
+    }))
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('stops after unmount', () => {
+    const onChange = jest.fn()
+    function Panel() {
+      const { panel } = useToggles('ui')
+      useToggleEffect(panel, { onChange })
+      return null
+    }
+
+    const { unmount } = render(<Panel />)
+    unmount()
+    open(globalNouns.get('ui:panel'))
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('offers the same callbacks on the store', () => {
+    const onActivate = jest.fn()
+    const onDeactivate = jest.fn()
+    const stop = globalNouns.watch('ui:modal', { onActivate, onDeactivate })
+    const modal = globalNouns.get('ui:modal')
+
+    open(modal)
+    open(modal)
+    open(globalNouns.get('ui:other'))
+    expect(onActivate).toHaveBeenCalledTimes(1)
+    expect(onActivate).toHaveBeenCalledWith({ key: 'ui:modal', previous: false, value: true, verb: 'open' })
+
+    stop()
+    close(modal)
+    expect(onDeactivate).not.toHaveBeenCalled()
+  })
+
+  it('fires for tri-state nouns', async () => {
+    const onChange = jest.fn()
+    function SelectAll() {
+      const all = useTriState('indeterminate')
+      useToggleEffect(all, { onChange })
+      return (
+        <>
+          <button onClick={() => check(all)}>Check</button>
+          <button onClick={() => setIndeterminate(all)}>Some</button>
+        </>
+      )
+    }
+
+    render(<SelectAll />)
+    await userEvent.click(screen.getByText('Check'))
+    expect(onChange).toHaveBeenCalledWith({ previous: false, value: true, verb: 'check' })
+    await userEvent.click(screen.getByText('Some'))
+    expect(onChange).toHaveBeenLastCalledWith({ previous: true, value: false, verb: undefined })
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+
+  it('fires for derived nouns when what they are derived from changes', () => {
+    const onChange = jest.fn()
+    function AnyPanel() {
+      const ui = useToggles('ui')
+      useToggleEffect(anyOf(ui.left, ui.right), { onChange })
+      return null
+    }
+
+    render(<AnyPanel />)
+    act(() => { open(globalNouns.get('ui:left')) })
+    expect(onChange).toHaveBeenCalledWith({ previous: false, value: true, verb: undefined })
+
+    // still open through the other source
+    act(() => {
+      open(globalNouns.get('ui:right'))
+      close(globalNouns.get('ui:left'))
+    })
+    expect(onChange).toHaveBeenCalledTimes(1)
+
+    act(() => { close(globalNouns.get('ui:right')) })
+    expect(onChange).toHaveBeenLastCalledWith({ previous: true, value: false, verb: undefined })
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,170 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import { useToggles, open, close, createToggleStore, TogglesProvider } from '../index'
+import { createNounSubscription } from '../src/subscription'
+
+const MINUTE = 60 * 1000
+
+describe('Eviction', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('ttl', () => {
+    it('evicts unused nouns after the default five minutes', () => {
+      const onEvict = jest.fn()
+      const store = createToggleStore({ onEvict })
+      open(store.get('ui:panel'))
+
+      jest.advanceTimersByTime(4 * MINUTE)
+      expect(store.has('ui:panel')).toBe(true)
+
+      jest.advanceTimersByTime(2 * MINUTE)
+      expect(store.has('ui:panel')).toBe(false)
+      expect(onEvict).toHaveBeenCalledWith('ui:panel', true)
+      store.destroy()
+    })
+
+    it('uses the configured ttl and cleanup interval', () => {
+      const store = createToggleStore({ ttl: 30 * MINUTE, cleanupInterval: 10 * MINUTE })
+      store.get('dashboard:filters')
+
+      jest.advanceTimersByTime(30 * MINUTE)
+      expect(store.has('dashboard:filters')).toBe(true)
+
+      jest.advanceTimersByTime(10 * MINUTE)
+      expect(store.has('dashboard:filters')).toBe(false)
+      store.destroy()
+    })
+
+    it('does not keep a Node process alive', () => {
+      const unref = jest.fn()
+      const setIntervalSpy = jest.spyOn(global, 'setInterval').mockReturnValue({ unref } as any)
+      const store = createToggleStore()
+
+      expect(setIntervalSpy).toHaveBeenCalledTimes(1)
+      expect(unref).toHaveBeenCalledTimes(1)
+      setIntervalSpy.mockRestore()
+      store.destroy()
+    })
+
+    it('never evicts nouns that are still in use', () => {
+      const store = createToggleStore({ ttl: MINUTE, cleanupInterval: MINUTE })
+      function Dashboard() {
+        const { filters } = useToggles('dashboard')
+        return <div>{filters.isOpen ? 'open' : 'closed'}</div>
+      }
+
+      const { unmount } = render(<TogglesProvider store={store}><Dashboard /></TogglesProvider>)
+      jest.advanceTimersByTime(10 * MINUTE)
+      expect(store.has('dashboard:filters')).toBe(true)
+
+      // idle time counts from when the last user let go
+      unmount()
+      jest.advanceTimersByTime(MINUTE)
+      expect(store.has('dashboard:filters')).toBe(true)
+      jest.advanceTimersByTime(MINUTE)
+      expect(store.has('dashboard:filters')).toBe(false)
+      store.destroy()
+    })
+  })
+
+  describe('never', () => {
+    it('keeps nouns forever without running a timer', () => {
+      const setIntervalSpy = jest.spyOn(global, 'setInterval')
+      const store = createToggleStore({ eviction: 'never' })
+      store.get('dashboard:filters')
+
+      jest.advanceTimersByTime(24 * 60 * MINUTE)
+      expect(store.has('dashboard:filters')).toBe(true)
+      expect(setIntervalSpy).not.toHaveBeenCalled()
+      setIntervalSpy.mockRestore()
+      store.destroy()
+    })
+  })
+
+  describe('lru', () => {
+    it('evicts the least recently used nouns beyond maxEntries', () => {
+      const onEvict = jest.fn()
+      const store = createToggleStore({ eviction: 'lru', maxEntries: 2, onEvict })
+
+      store.get('ui:a')
+      jest.advanceTimersByTime(1)
+      store.get('ui:b')
+      jest.advanceTimersByTime(1)
+      store.get('ui:a')
+      jest.advanceTimersByTime(1)
+      store.get('ui:c')
+
+      expect(store.has('ui:a')).toBe(true)
+      expect(store.has('ui:b')).toBe(false)
+      expect(store.has('ui:c')).toBe(true)
+      expect(onEvict).toHaveBeenCalledTimes(1)
+      expect(onEvict).toHaveBeenCalledWith('ui:b', false)
+      store.destroy()
+    })
+
+    it('waits for nouns in use to be released', () => {
+      const store = createToggleStore({ eviction: 'lru', maxEntries: 1 })
+      store.get('ui:a')
+      store.acquire('ui:a')
+      jest.advanceTimersByTime(1)
+      store.get('ui:b')
+
+      expect(store.has('ui:a')).toBe(true)
+      expect(store.has('ui:b')).toBe(true)
+
+      store.release('ui:a')
+      expect(store.has('ui:a')).toBe(false)
+      expect(store.has('ui:b')).toBe(true)
+      store.destroy()
+    })
+
+    it('keeps nouns a component read until it has subscribed to them', () => {
+      const store = createToggleStore({ eviction: 'lru', maxEntries: 1 })
+      function Panels() {
+        const { a, b } = useToggles('ui')
+        return <div data-testid="panels">{`${a.isOpen} ${b.isOpen}`}</div>
+      }
+
+      render(<TogglesProvider store={store}><Panels /></TogglesProvider>)
+      expect(store.has('ui:a')).toBe(true)
+      expect(store.has('ui:b')).toBe(true)
+
+      act(() => open(store.get('ui:a')))
+      expect(screen.getByTestId('panels').textContent).toBe('true false')
+      store.destroy()
+    })
+
+    it('brings back nouns evicted before the component subscribed', () => {
+      const store = createToggleStore({ eviction: 'lru', maxEntries: 1 })
+      const abandoned = createNounSubscription(store)
+      store.get('ui:a', true)
+      abandoned.track('ui:a', true)
+
+      // another component commits, after which the read above no longer protects the noun
+      createNounSubscription(store).subscribe(() => { })
+      store.get('ui:b')
+      expect(store.has('ui:a')).toBe(false)
+
+      const onChange = jest.fn()
+      abandoned.subscribe(onChange)
+      expect(store.get('ui:a').isOpen).toBe(true)
+      close(store.get('ui:a'))
+      expect(onChange).toHaveBeenCalledTimes(1)
+      store.destroy()
+    })
+
+    it('ignores the ttl', () => {
+      const store = createToggleStore({ eviction: 'lru', maxEntries: 10 })
+      store.get('ui:a')
+      jest.advanceTimersByTime(60 * MINUTE)
+      expect(store.has('ui:a')).toBe(true)
+      store.destroy()
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggleGroup, open, close, toggle, batch, globalNouns, addMiddleware } from '../index'
+
+describe('Toggle groups', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Faq({ required = false }) {
+    const { nouns: { shipping, returns, payment }, active } = useToggleGroup('faq', { exclusive: true, required })
+    return (
+      <>
+        <span data-testid="faq">{`${shipping.isExpanded} ${returns.isExpanded} ${payment.isExpanded}`}</span>
+        <span data-testid="active">{active ?? 'none'}</span>
+        <button onClick={() => toggle(shipping)}>Shipping</button>
+        <button onClick={() => toggle(returns)}>Returns</button>
+        <button onClick={() => toggle(payment)}>Payment</button>
+      </>
+    )
+  }
+
+  it('closes the other members when one is opened', async () => {
+    render(<Faq />)
+
+    await userEvent.click(screen.getByText('Shipping'))
+    expect(screen.getByTestId('faq').textContent).toBe('true false false')
+    expect(screen.getByTestId('active').textContent).toBe('shipping')
+
+    await userEvent.click(screen.getByText('Returns'))
+    expect(screen.getByTestId('faq').textContent).toBe('false true false')
+    expect(screen.getByTestId('active').textContent).toBe('returns')
+
+    // without the constraint everything can be closed
+    await userEvent.click(screen.getByText('Returns'))
+    expect(screen.getByTestId('faq').textContent).toBe('false false false')
+    expect(screen.getByTestId('active').textContent).toBe('none')
+  })
+
+  it('keeps the last member open when one is required', async () => {
+    render(<Faq required />)
+
+    await userEvent.click(screen.getByText('Payment'))
+    await userEvent.click(screen.getByText('Payment'))
+    expect(screen.getByTestId('faq').textContent).toBe('false false true')
+
+    await userEvent.click(screen.getByText('Shipping'))
+    expect(screen.getByTestId('faq').textContent).toBe('true false false')
+  })
+
+  it('never renders two active members', async () => {
+    const seen: string[] = []
+    function Tabs() {
+      const { nouns: { first, second } } = useToggleGroup('tabs')
+      seen.push(`${first.isActive} ${second.isActive}`)
+      return <button onClick={() => open(second)}>Second</button>
+    }
+
+    render(<Tabs />)
+    act(() => { open(globalNouns.get('tabs:first')) })
+    await userEvent.click(screen.getByText('Second'))
+    expect(seen).not.toContain('true true')
+    expect(seen[seen.length - 1]).toBe('false true')
+  })
+
+  it('applies to changes made outside the hook', () => {
+    const stop = globalNouns.group('settings')
+    const wifi = globalNouns.get('settings:wifi')
+    const ethernet = globalNouns.get('settings:ethernet')
+    const listener = jest.fn()
+    globalNouns.onChange(listener)
+
+    open(wifi)
+    open(ethernet)
+    expect([wifi.isOpen, ethernet.isOpen]).toEqual([false, true])
+    expect(globalNouns.getActive('settings')).toBe('ethernet')
+    expect(listener).toHaveBeenCalledWith({ key: 'settings:wifi', previous: true, value: false, verb: undefined })
+
+    stop()
+    open(wifi)
+    expect([wifi.isOpen, ethernet.isOpen]).toEqual([true, true])
+  })
+
+  it('closes the other members through middleware', () => {
+    const stop = globalNouns.group('settings')
+    const wifi = globalNouns.get('settings:wifi')
+    const ethernet = globalNouns.get('settings:ethernet')
+    open(wifi)
+
+    const seen: string[] = []
+    let locked = true
+    const remove = addMiddleware(({ name, requested }, next) => {
+      seen.push(`${name} ${requested}`)
+      if (name === 'wifi' && !requested && locked) return
+      next()
+    })
+
+    // a sibling that must stay on keeps the new member off
+    open(ethernet)
+    expect(seen).toEqual(['ethernet true', 'wifi false'])
+    expect([wifi.isOpen, ethernet.isOpen]).toEqual([true, false])
+
+    locked = false
+    open(ethernet)
+    expect([wifi.isOpen, ethernet.isOpen]).toEqual([false, true])
+    remove()
+    stop()
+  })
+
+  it('lets non-exclusive groups keep several members open', () => {
+    globalNouns.group('filters', { exclusive: false, required: true })
+    const size = globalNouns.get('filters:size')
+    const color = globalNouns.get('filters:color')
+
+    open(size)
+    open(color)
+    close(size)
+    close(color)
+    expect([size.isOpen, color.isOpen]).toEqual([false, true])
+  })
+
+  it('rolls back sibling changes with the surrounding batch', () => {
+    globalNouns.group('faq')
+    const shipping = globalNouns.get('faq:shipping', true)
+    const returns = globalNouns.get('faq:returns')
+
+    expect(() => batch(() => {
+      open(returns)
+      throw new Error('nope')
+    })).toThrow('nope')
+    expect([shipping.isExpanded, returns.isExpanded]).toEqual([true, false])
+  })
+
+  it('stays in effect while any component declares it', async () => {
+    const { unmount } = render(<Faq />)
+    render(<Faq />)
+    unmount()
+
+    act(() => {
+      open(globalNouns.get('faq:shipping'))
+      open(globalNouns.get('faq:returns'))
+    })
+    expect(globalNouns.get('faq:shipping').isOpen).toBe(false)
+  })
+})
@@ -0,0 +1,152 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, open, show, close, toggle, globalNouns, addMiddleware, closeOnBack, createMemoryLocation } from '../index'
+
+describe('Back button', () => {
+  const stops: (() => void)[] = []
+  const setup = (nouns: string[]) => {
+    const location = createMemoryLocation('?page=1')
+    stops.push(closeOnBack({ nouns, location }))
+    return location
+  }
+
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  afterEach(() => {
+    stops.splice(0).forEach(stop => stop())
+  })
+
+  function Modal() {
+    const { modal } = useToggles('ui')
+    return (
+      <>
+        <span data-testid="modal">{modal.isOpen ? 'open' : 'closed'}</span>
+        <button onClick={() => open(modal)}>Open</button>
+        <button onClick={() => close(modal)}>Close</button>
+      </>
+    )
+  }
+
+  it('closes the modal instead of leaving the page', async () => {
+    const location = setup(['ui:modal'])
+    render(<Modal />)
+
+    await userEvent.click(screen.getByText('Open'))
+    expect(location.entries).toEqual(['?page=1', '?page=1'])
+
+    act(() => location.back())
+    expect(screen.getByTestId('modal').textContent).toBe('closed')
+    // the page itself is still where it was
+    expect(location.index).toBe(0)
+  })
+
+  it('removes the entry when closed with a verb without a double back', async () => {
+    const location = setup(['ui:modal'])
+    render(<Modal />)
+
+    await userEvent.click(screen.getByText('Open'))
+    await userEvent.click(screen.getByText('Close'))
+    expect(location.index).toBe(0)
+    expect(screen.getByTestId('modal').textContent).toBe('closed')
+  })
+
+  it('closes the most recently opened noun first', () => {
+    const location = setup(['ui:modal', 'ui:drawer'])
+    const modal = globalNouns.get('ui:modal')
+    const drawer = globalNouns.get('ui:drawer')
+
+    open(drawer)
+    show(modal)
+    expect(location.index).toBe(2)
+
+    location.back()
+    expect(modal.isOpen).toBe(false)
+    expect(drawer.isOpen).toBe(true)
+
+    location.back()
+    expect(drawer.isOpen).toBe(false)
+    expect(location.index).toBe(0)
+  })
+
+  it('only tracks flagged nouns opened through open, show or display', () => {
+    const location = setup(['ui:modal'])
+
+    open(globalNouns.get('ui:other'))
+    toggle(globalNouns.get('ui:modal'))
+    expect(location.entries).toHaveLength(1)
+  })
+
+  it('keeps the entry when a middleware vetoes closing', () => {
+    const location = setup(['ui:modal'])
+    const modal = globalNouns.get('ui:modal')
+    const remove = addMiddleware(({ requested }, next) => { if (requested) next() })
+
+    open(modal)
+    location.back()
+    expect(modal.isOpen).toBe(true)
+    expect(location.index).toBe(1)
+    remove()
+
+    location.back()
+    expect(modal.isOpen).toBe(false)
+    expect(location.index).toBe(0)
+  })
+
+  it('goes back once when an async middleware allows closing', async () => {
+    const location = setup(['ui:modal'])
+    const modal = globalNouns.get('ui:modal')
+    const remove = addMiddleware(async (_, next) => {
+      await Promise.resolve()
+      next()
+    })
+
+    await open(modal)
+    location.back()
+    const back = jest.spyOn(location, 'back')
+    await act(async () => { await Promise.resolve() })
+    expect(modal.isOpen).toBe(false)
+    expect(location.index).toBe(0)
+    // the entry is already gone, going back again would leave the page
+    expect(back).not.toHaveBeenCalled()
+    remove()
+  })
+
+  it('ignores Back between entries it did not push', () => {
+    const location = setup(['ui:modal'])
+    const modal = globalNouns.get('ui:modal')
+
+    open(modal)
+    location.push('?page=2')
+    location.back()
+    expect(modal.isOpen).toBe(true)
+    expect(location.index).toBe(1)
+
+    location.back()
+    expect(modal.isOpen).toBe(false)
+    expect(location.index).toBe(0)
+  })
+
+  it('does not create the nouns it watches', () => {
+    setup(['ui:modal'])
+    expect(globalNouns.has('ui:modal')).toBe(false)
+
+    function Drawer() {
+      const { modal } = useToggles('ui', true)
+      return <span data-testid="modal">{modal.isOpen ? 'open' : 'closed'}</span>
+    }
+    render(<Drawer />)
+    expect(screen.getByTestId('modal').textContent).toBe('open')
+  })
+
+  it('stops handling Back once stopped', () => {
+    const location = createMemoryLocation()
+    const stop = closeOnBack({ nouns: ['ui:modal'], location })
+    stop()
+
+    open(globalNouns.get('ui:modal'))
+    expect(location.entries).toHaveLength(1)
+  })
+})
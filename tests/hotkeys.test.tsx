@@ -0,0 +1,169 @@
+import React from 'react'
+import { render, screen, act, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useToggleHotkeys, bindHotkeys, toggle, open, close, globalNouns, type HotkeyOptions } from '../index'
+
+describe('Hotkeys', () => {
+  const unbinders: (() => void)[] = []
+  const bind = (...args: Parameters<typeof bindHotkeys>) => {
+    unbinders.push(bindHotkeys(...args))
+  }
+
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  afterEach(() => {
+    unbinders.splice(0).forEach(unbind => unbind())
+    jest.restoreAllMocks()
+  })
+
+  function Palette({ options }: { options?: HotkeyOptions }) {
+    const ui = useToggles('ui')
+    useToggleHotkeys({
+      'mod+k': [toggle, ui.palette],
+      'Escape': [close, ui.palette, { allowInInputs: true }]
+    }, options)
+    return (
+      <>
+        <span data-testid="palette">{ui.palette.isOpen ? 'open' : 'closed'}</span>
+        <input aria-label="search" />
+      </>
+    )
+  }
+
+  it('maps mod to Ctrl outside macOS', async () => {
+    render(<Palette options={{ mac: false }} />)
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(screen.getByTestId('palette').textContent).toBe('open')
+
+    await userEvent.keyboard('{Meta>}k{/Meta}')
+    expect(screen.getByTestId('palette').textContent).toBe('open')
+    await userEvent.keyboard('{Escape}')
+    expect(screen.getByTestId('palette').textContent).toBe('closed')
+  })
+
+  it('maps mod to Cmd on macOS', async () => {
+    render(<Palette options={{ mac: true }} />)
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(screen.getByTestId('palette').textContent).toBe('closed')
+    await userEvent.keyboard('{Meta>}k{/Meta}')
+    expect(screen.getByTestId('palette').textContent).toBe('open')
+  })
+
+  it('matches Option combos on macOS by the physical key', () => {
+    const ui = { search: globalNouns.get('ui:search'), panel: globalNouns.get('ui:panel') }
+    bind({ 'alt+s': [open, ui.search], 'mod+alt+1': [open, ui.panel] }, { mac: true })
+
+    // Option turns S into "ß" and 1 into "¡"
+    fireEvent.keyDown(document.body, { key: 'ß', code: 'KeyS', altKey: true })
+    expect(ui.search.isOpen).toBe(true)
+    fireEvent.keyDown(document.body, { key: '¡', code: 'Digit1', altKey: true, metaKey: true })
+    expect(ui.panel.isOpen).toBe(true)
+  })
+
+  it('does not fire inside inputs unless the binding allows it', async () => {
+    render(<Palette options={{ mac: false }} />)
+    await userEvent.click(screen.getByLabelText('search'))
+
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(screen.getByTestId('palette').textContent).toBe('closed')
+
+    act(() => { open(globalNouns.get('ui:palette')) })
+    await userEvent.keyboard('{Escape}')
+    expect(screen.getByTestId('palette').textContent).toBe('closed')
+  })
+
+  it('follows allowInInputs changing between renders', async () => {
+    function Search({ allowInInputs }: { allowInInputs: boolean }) {
+      const ui = useToggles('ui')
+      useToggleHotkeys({ 'mod+k': [toggle, ui.palette, { allowInInputs }] }, { mac: false })
+      return <input aria-label="search" />
+    }
+
+    const { rerender } = render(<Search allowInInputs={false} />)
+    await userEvent.click(screen.getByLabelText('search'))
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(globalNouns.get('ui:palette').isOpen).toBe(false)
+
+    rerender(<Search allowInInputs />)
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(globalNouns.get('ui:palette').isOpen).toBe(true)
+  })
+
+  it('supports key sequences', async () => {
+    const sidebar = globalNouns.get('ui:sidebar')
+    bind({ 'g s': [open, sidebar] })
+
+    await userEvent.keyboard('s')
+    expect(sidebar.isOpen).toBe(false)
+    await userEvent.keyboard('gs')
+    expect(sidebar.isOpen).toBe(true)
+  })
+
+  it('forgets a sequence after the timeout', async () => {
+    jest.useFakeTimers()
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime })
+    const sidebar = globalNouns.get('ui:sidebar')
+    bind({ 'g s': [open, sidebar] }, { sequenceTimeout: 500 })
+
+    await user.keyboard('g')
+    jest.advanceTimersByTime(600)
+    await user.keyboard('s')
+    expect(sidebar.isOpen).toBe(false)
+    jest.useRealTimers()
+  })
+
+  it('matches symbols regardless of shift', async () => {
+    const help = globalNouns.get('ui:help')
+    bind({ '?': [toggle, help], 'shift+h': [toggle, globalNouns.get('ui:history')] })
+
+    await userEvent.keyboard('?')
+    expect(help.isOpen).toBe(true)
+    await userEvent.keyboard('h')
+    expect(globalNouns.get('ui:history').isOpen).toBe(false)
+    await userEvent.keyboard('{Shift>}H{/Shift}')
+    expect(globalNouns.get('ui:history').isOpen).toBe(true)
+  })
+
+  it('warns about conflicting bindings and lets the latest one fire', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    const palette = globalNouns.get('ui:palette')
+    const search = globalNouns.get('ui:search')
+
+    bind({ 'mod+k': [open, palette] }, { mac: false })
+    bind({ 'ctrl+k': [open, search] }, { mac: false })
+    expect(warn).toHaveBeenCalledWith('Hotkey "ctrl+k" conflicts with "mod+k" - only the most recently bound one fires')
+
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect([palette.isOpen, search.isOpen]).toEqual([false, true])
+  })
+
+  it('warns when a key also starts a sequence', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    bind({ 'g': [open, globalNouns.get('ui:grid')], 'g i': [open, globalNouns.get('ui:inbox')] })
+    expect(warn).toHaveBeenCalledWith('Hotkey "g" is also the start of the sequence "g i"')
+  })
+
+  it('unbinds when the component unmounts', async () => {
+    const { unmount } = render(<Palette options={{ mac: false }} />)
+    unmount()
+    await userEvent.keyboard('{Control>}k{/Control}')
+    expect(globalNouns.get('ui:palette').isOpen).toBe(false)
+  })
+
+  it('uses the latest bindings without rebinding', async () => {
+    const warn = jest.spyOn(console, 'warn')
+    function Panels({ target }: { target: string }) {
+      const ui = useToggles('ui')
+      useToggleHotkeys({ 'p': [toggle, ui[target]] })
+      return null
+    }
+
+    const { rerender } = render(<Panels target="left" />)
+    rerender(<Panels target="right" />)
+    await userEvent.keyboard('p')
+    expect([globalNouns.get('ui:left').isOpen, globalNouns.get('ui:right').isOpen]).toEqual([false, true])
+    expect(warn).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,111 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import {
+  useToggles, open, toggle, globalNouns, createToggleStore, addMiddleware,
+  getToggle, setToggle, subscribeToggle
+} from '../index'
+
+describe('Imperative API', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function HelpPanel() {
+    const { help } = useToggles('ui')
+    return <span data-testid="help">{help.isOpen ? 'open' : 'closed'}</span>
+  }
+
+  it('returns the same noun the hooks use', () => {
+    let hookNoun: unknown
+    function Panel() {
+      hookNoun = useToggles('ui').help
+      return null
+    }
+    render(<Panel />)
+    expect(getToggle('ui', 'help')).toBe(hookNoun)
+  })
+
+  it('opens a panel from outside React with the exported verbs', () => {
+    render(<HelpPanel />)
+
+    // e.g. a keyboard handler in a vanilla module
+    act(() => { open(getToggle('ui', 'help')) })
+    expect(screen.getByTestId('help').textContent).toBe('open')
+  })
+
+  it('sets a value directly', () => {
+    render(<HelpPanel />)
+
+    act(() => { setToggle('ui', 'help', true) })
+    expect(screen.getByTestId('help').textContent).toBe('open')
+    act(() => { setToggle('ui', 'help', false) })
+    expect(screen.getByTestId('help').textContent).toBe('closed')
+  })
+
+  it('runs setToggle through middleware without a verb', () => {
+    const seen = jest.fn((_, next) => next())
+    const remove = addMiddleware(seen)
+    setToggle('ui', 'help', true)
+    remove()
+
+    expect(seen).toHaveBeenCalledWith(expect.objectContaining({ name: 'help', namespace: 'ui', verb: undefined }), expect.any(Function))
+  })
+
+  it('does not fight the initial value a component passes later', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+    getToggle('ui', 'help')
+
+    function OpenByDefault() {
+      const { help } = useToggles('ui', true)
+      return <span>{help.isOpen ? 'open' : 'closed'}</span>
+    }
+    render(<OpenByDefault />)
+    expect(consoleSpy).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+
+  it('notifies subscribers of changes made anywhere', async () => {
+    const listener = jest.fn()
+    const unsubscribe = subscribeToggle('ui', 'help', noun => listener(noun.isOpen))
+
+    function Toggle() {
+      const { help } = useToggles('ui')
+      return <button onClick={() => toggle(help)}>Help</button>
+    }
+    render(<Toggle />)
+
+    await userEvent.click(screen.getByText('Help'))
+    expect(listener).toHaveBeenLastCalledWith(true)
+
+    unsubscribe()
+    unsubscribe()
+    await userEvent.click(screen.getByText('Help'))
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps subscribed nouns from being evicted', () => {
+    jest.useFakeTimers()
+    const store = createToggleStore({ ttl: 1000, cleanupInterval: 1000 })
+    const unsubscribe = subscribeToggle('ui', 'help', () => { }, store)
+
+    jest.advanceTimersByTime(5000)
+    expect(store.has('ui:help')).toBe(true)
+
+    unsubscribe()
+    jest.advanceTimersByTime(5000)
+    expect(store.has('ui:help')).toBe(false)
+
+    store.destroy()
+    jest.useRealTimers()
+  })
+
+  it('works against a specific store', () => {
+    const store = createToggleStore()
+    setToggle('ui', 'help', true, store)
+
+    expect(getToggle('ui', 'help', undefined, store).isOpen).toBe(true)
+    expect(getToggle('ui', 'help').isOpen).toBe(false)
+    store.destroy()
+  })
+})
@@ -0,0 +1,202 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggle, useToggles, open, close, toggle, globalNouns, addMiddleware, createToggleStore, TogglesProvider, type ToggleMiddleware } from '../index'
+
+describe('Middleware', () => {
+  const removers: (() => void)[] = []
+  const register = (middleware: ToggleMiddleware, options?: { namespace?: string }) => {
+    removers.push(addMiddleware(middleware, options))
+  }
+
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  afterEach(() => {
+    removers.splice(0).forEach(remove => remove())
+  })
+
+  it('receives the noun name, namespace, current and requested values and verb', () => {
+    const seen = jest.fn()
+    register((context, next) => {
+      seen({ ...context, noun: undefined })
+      next()
+    })
+
+    const editor = globalNouns.get('editor:draft', true)
+    close(editor)
+
+    expect(seen).toHaveBeenCalledWith({
+      noun: undefined,
+      name: 'draft',
+      namespace: 'editor',
+      current: true,
+      requested: false,
+      verb: 'close'
+    })
+    expect(editor.isOpen).toBe(false)
+  })
+
+  it('vetoes a change by not calling next', async () => {
+    let unsavedChanges = true
+    register(({ verb }, next) => {
+      if (verb === 'close' && unsavedChanges) return
+      next()
+    }, { namespace: 'editor' })
+
+    function Editor() {
+      const { editor } = useToggles('editor', true)
+      return (
+        <>
+          <span data-testid="editor">{editor.isOpen ? 'open' : 'closed'}</span>
+          <button onClick={() => close(editor)}>Close</button>
+        </>
+      )
+    }
+
+    render(<Editor />)
+    await userEvent.click(screen.getByText('Close'))
+    expect(screen.getByTestId('editor').textContent).toBe('open')
+
+    unsavedChanges = false
+    await userEvent.click(screen.getByText('Close'))
+    expect(screen.getByTestId('editor').textContent).toBe('closed')
+  })
+
+  it('substitutes the requested value', () => {
+    register((_, next) => next(true))
+    const locked = globalNouns.get('doc:locked', true)
+    toggle(locked)
+    expect(locked.isLocked).toBe(true)
+  })
+
+  it('only runs namespaced middleware for that namespace', () => {
+    const editorOnly = jest.fn((_, next) => next())
+    register(editorOnly, { namespace: 'editor' })
+
+    open(globalNouns.get('ui:panel'))
+    expect(editorOnly).not.toHaveBeenCalled()
+
+    open(globalNouns.get('editor:panel'))
+    expect(editorOnly).toHaveBeenCalledTimes(1)
+  })
+
+  it('runs global middleware for local nouns', async () => {
+    const log: string[] = []
+    register(({ name, namespace, verb, requested }, next) => {
+      log.push(`${namespace ?? 'local'} ${name} ${verb} ${requested}`)
+      next()
+    })
+
+    function Menu() {
+      const { menu } = useToggles()
+      return <button onClick={() => toggle(menu)}>{menu.isOpen ? 'open' : 'closed'}</button>
+    }
+
+    render(<Menu />)
+    await userEvent.click(screen.getByText('closed'))
+    expect(screen.getByText('open')).toBeTruthy()
+    expect(log).toEqual(['local menu toggle true'])
+  })
+
+  it('runs middlewares in registration order, each seeing the value passed on', () => {
+    const order: string[] = []
+    register((context, next) => {
+      order.push(`first ${context.requested}`)
+      next(!context.requested)
+    })
+    register((context, next) => {
+      order.push(`second ${context.requested}`)
+      next()
+    })
+
+    const panel = globalNouns.get('ui:panel')
+    open(panel)
+    expect(order).toEqual(['first true', 'second false'])
+    expect(panel.isOpen).toBe(false)
+  })
+
+  it('supports async confirmation', async () => {
+    let confirm: (ok: boolean) => void = () => { }
+    register(async ({ verb }, next) => {
+      if (verb !== 'close') return next()
+      const ok = await new Promise<boolean>(resolve => { confirm = resolve })
+      if (ok) next()
+    })
+
+    const Editor = () => {
+      const editor = useToggle(true)
+      return (
+        <>
+          <span data-testid="editor">{editor.isOpen ? 'open' : 'closed'}</span>
+          <button onClick={() => close(editor)}>Close</button>
+        </>
+      )
+    }
+
+    render(<Editor />)
+    await userEvent.click(screen.getByText('Close'))
+    expect(screen.getByTestId('editor').textContent).toBe('open')
+
+    await act(async () => confirm(false))
+    expect(screen.getByTestId('editor').textContent).toBe('open')
+
+    await userEvent.click(screen.getByText('Close'))
+    await act(async () => confirm(true))
+    expect(screen.getByTestId('editor').textContent).toBe('closed')
+  })
+
+  it('lets callers await verbs held by async middleware', async () => {
+    register(async (_, next) => {
+      await Promise.resolve()
+      next()
+    })
+
+    const panel = globalNouns.get('ui:panel')
+    const pending = open(panel)
+    expect(panel.isOpen).toBe(false)
+    await pending
+    expect(panel.isOpen).toBe(true)
+  })
+
+  it('keeps middleware to the store it was added to', async () => {
+    const store = createToggleStore({ server: true })
+    const storeOnly = jest.fn()
+    removers.push(store.use(storeOnly))
+    const everywhere = jest.fn((_, next) => next())
+    register(everywhere)
+
+    open(globalNouns.get('ui:panel'))
+    expect(storeOnly).not.toHaveBeenCalled()
+    expect(globalNouns.get('ui:panel').isOpen).toBe(true)
+
+    open(store.get('ui:panel'))
+    expect(storeOnly).toHaveBeenCalledTimes(1)
+    expect(store.get('ui:panel').isOpen).toBe(false)
+    expect(everywhere).toHaveBeenCalledTimes(1)
+
+    // local nouns go through the middleware of the store they are rendered with
+    function Menu() {
+      const { menu } = useToggles()
+      return <button onClick={() => toggle(menu)}>{menu.isOpen ? 'open' : 'closed'}</button>
+    }
+    render(<TogglesProvider store={store}><Menu /></TogglesProvider>)
+    await userEvent.click(screen.getByText('closed'))
+    expect(screen.getByText('closed')).toBeTruthy()
+    expect(storeOnly).toHaveBeenCalledTimes(2)
+    expect(everywhere).toHaveBeenCalledTimes(1)
+    store.destroy()
+  })
+
+  it('stops running once removed', () => {
+    const veto = jest.fn()
+    const remove = addMiddleware(veto)
+    remove()
+
+    const panel = globalNouns.get('ui:panel')
+    open(panel)
+    expect(veto).not.toHaveBeenCalled()
+    expect(panel.isOpen).toBe(true)
+  })
+})
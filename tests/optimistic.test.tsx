@@ -0,0 +1,149 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useToggle, subscribe, unsubscribe, toggle, open, globalNouns, addMiddleware, getNounError } from '../index'
+
+const deferred = () => {
+  let resolve: () => void = () => { }
+  let reject: (error: unknown) => void = () => { }
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej })
+  return { promise, resolve, reject }
+}
+
+describe('Async verbs', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Newsletter({ request }: { request: () => Promise<void> }) {
+    const { newsletter } = useToggles('user')
+    return (
+      <>
+        <span data-testid="status">
+          {`${newsletter.isSubscribed} ${newsletter.isPending} ${newsletter.hasError}`}
+        </span>
+        <button onClick={() => subscribe(newsletter, request).catch(() => { })}>Subscribe</button>
+      </>
+    )
+  }
+
+  it('flips the noun straight away and clears pending once confirmed', async () => {
+    const request = deferred()
+    render(<Newsletter request={() => request.promise} />)
+
+    await userEvent.click(screen.getByText('Subscribe'))
+    expect(screen.getByTestId('status').textContent).toBe('true true false')
+
+    await act(async () => request.resolve())
+    expect(screen.getByTestId('status').textContent).toBe('true false false')
+  })
+
+  it('rolls back and exposes the error when the request fails', async () => {
+    const request = deferred()
+    render(<Newsletter request={() => request.promise} />)
+
+    await userEvent.click(screen.getByText('Subscribe'))
+    await act(async () => request.reject(new Error('offline')))
+    expect(screen.getByTestId('status').textContent).toBe('false false true')
+    expect(getNounError(globalNouns.get('user:newsletter'))).toEqual(new Error('offline'))
+  })
+
+  it('rejects the awaited verb with the error', async () => {
+    const newsletter = globalNouns.get('user:newsletter')
+    await expect(subscribe(newsletter, () => Promise.reject(new Error('offline')))).rejects.toThrow('offline')
+    expect(newsletter.isSubscribed).toBe(false)
+
+    // the next attempt starts without the old error
+    await subscribe(newsletter, () => Promise.resolve())
+    expect(newsletter.hasError).toBe(false)
+    expect(newsletter.isSubscribed).toBe(true)
+  })
+
+  it('only lets the latest request settle the noun', async () => {
+    const newsletter = globalNouns.get('user:newsletter')
+    const first = deferred()
+    const second = deferred()
+    const firstRequest = jest.fn(() => first.promise)
+    const secondRequest = jest.fn(() => second.promise)
+
+    const subscribing = subscribe(newsletter, firstRequest)
+    const unsubscribing = unsubscribe(newsletter, secondRequest)
+    expect(newsletter.isSubscribed).toBe(false)
+
+    // the stale request still runs, and finishing it does not clear pending
+    first.resolve()
+    await subscribing
+    expect(firstRequest).toHaveBeenCalledTimes(1)
+    expect(secondRequest).toHaveBeenCalledTimes(1)
+    expect(newsletter.isPending).toBe(true)
+
+    // ...but having succeeded, it is what a failure of the latest one goes back to
+    second.reject(new Error('offline'))
+    await expect(unsubscribing).rejects.toThrow('offline')
+    expect(newsletter.isSubscribed).toBe(true)
+    expect(newsletter.isPending).toBe(false)
+  })
+
+  it('rolls back to the last confirmed value when no earlier request has settled', async () => {
+    const newsletter = globalNouns.get('user:newsletter')
+    const first = deferred()
+    const second = deferred()
+
+    const subscribing = subscribe(newsletter, () => first.promise)
+    const unsubscribing = unsubscribe(newsletter, () => second.promise)
+
+    second.reject(new Error('offline'))
+    await expect(unsubscribing).rejects.toThrow('offline')
+    expect(newsletter.isSubscribed).toBe(false)
+
+    first.resolve()
+    await subscribing
+  })
+
+  it('rejects superseded failures without touching the noun', async () => {
+    const newsletter = globalNouns.get('user:newsletter')
+    const first = deferred()
+    const second = deferred()
+
+    const subscribing = subscribe(newsletter, () => first.promise)
+    const resubscribing = subscribe(newsletter, () => second.promise)
+    first.reject(new Error('timeout'))
+    await expect(subscribing).rejects.toThrow('timeout')
+
+    expect(newsletter.isSubscribed).toBe(true)
+    expect(newsletter.hasError).toBe(false)
+    second.resolve()
+    await resubscribing
+    expect(newsletter.isPending).toBe(false)
+  })
+
+  it('does not run the request when middleware vetoes the change', async () => {
+    const remove = addMiddleware(() => { })
+    const request = jest.fn(() => Promise.resolve())
+    const panel = globalNouns.get('ui:panel')
+
+    await open(panel, request)
+    remove()
+    expect(request).not.toHaveBeenCalled()
+    expect(panel.isPending).toBe(false)
+  })
+
+  it('works with local nouns and toggle', async () => {
+    const request = deferred()
+    function Like() {
+      const liked = useToggle(false)
+      return (
+        <button onClick={() => toggle(liked, () => request.promise).catch(() => { })}>
+          {`${liked.isActive} ${liked.isPending}`}
+        </button>
+      )
+    }
+
+    render(<Like />)
+    await userEvent.click(screen.getByText('false false'))
+    expect(screen.getByText('true true')).toBeTruthy()
+
+    await act(async () => request.reject(new Error('nope')))
+    expect(screen.getByText('false false')).toBeTruthy()
+  })
+})
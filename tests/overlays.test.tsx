@@ -0,0 +1,154 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useOverlay, useDismissable, useTopmostOverlay, useScrollLock, open, close, batch, globalNouns } from '../index'
+
+describe('Overlay stack', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Modal({ name }: { name: string }) {
+    const ui = useToggles('ui')
+    const { depth, isTopmost, zIndex } = useOverlay(ui[name])
+    return ui[name].isOpen ? <div data-testid={name} style={{ zIndex }}>{`${depth} ${isTopmost}`}</div> : null
+  }
+
+  function Topmost() {
+    return <span data-testid="topmost">{useTopmostOverlay() ?? 'none'}</span>
+  }
+
+  const renderStack = () => render(<><Modal name="settings" /><Modal name="confirm" /><Modal name="drawer" /><Topmost /></>)
+  const openNoun = (name: string) => act(() => { open(globalNouns.get(`ui:${name}`)) })
+
+  it('stacks overlays in the order they open', () => {
+    renderStack()
+    openNoun('drawer')
+    openNoun('settings')
+
+    expect(screen.getByTestId('drawer').textContent).toBe('1 false')
+    expect(screen.getByTestId('settings').textContent).toBe('2 true')
+    expect(screen.getByTestId('topmost').textContent).toBe('ui:settings')
+    expect(screen.getByTestId('settings').style.zIndex).toBe('1002')
+  })
+
+  it('closes only the topmost overlay on Escape', async () => {
+    renderStack()
+    openNoun('settings')
+    openNoun('confirm')
+
+    await userEvent.keyboard('{Escape}')
+    expect(screen.queryByTestId('confirm')).toBeNull()
+    expect(screen.getByTestId('settings').textContent).toBe('1 true')
+
+    await userEvent.keyboard('{Escape}')
+    expect(screen.queryByTestId('settings')).toBeNull()
+    expect(screen.getByTestId('topmost').textContent).toBe('none')
+  })
+
+  it('closes a dismissable menu inside the topmost overlay first', async () => {
+    function Dialog() {
+      const ui = useToggles('ui')
+      useOverlay(ui.dialog)
+      const trigger = React.useRef<HTMLButtonElement>(null)
+      useDismissable(ui.menu, [trigger])
+      return (
+        <>
+          <span data-testid="dialog">{`${ui.dialog.isOpen} ${ui.menu.isOpen}`}</span>
+          <button ref={trigger}>Menu</button>
+        </>
+      )
+    }
+
+    render(<Dialog />)
+    openNoun('dialog')
+    openNoun('menu')
+
+    await userEvent.keyboard('{Escape}')
+    expect(screen.getByTestId('dialog').textContent).toBe('true false')
+    await userEvent.keyboard('{Escape}')
+    expect(screen.getByTestId('dialog').textContent).toBe('false false')
+  })
+
+  it('moves an overlay to the top when it closes and reopens', () => {
+    renderStack()
+    openNoun('settings')
+    openNoun('confirm')
+    act(() => {
+      close(globalNouns.get('ui:settings'))
+      open(globalNouns.get('ui:settings'))
+    })
+    expect(screen.getByTestId('topmost').textContent).toBe('ui:settings')
+  })
+
+  it('locks body scroll while any overlay is open', () => {
+    document.body.style.overflow = 'auto'
+    renderStack()
+    openNoun('settings')
+    expect(document.body.style.overflow).toBe('hidden')
+    openNoun('confirm')
+    act(() => { close(globalNouns.get('ui:settings')) })
+    expect(document.body.style.overflow).toBe('hidden')
+
+    act(() => { close(globalNouns.get('ui:confirm')) })
+    expect(document.body.style.overflow).toBe('auto')
+    document.body.style.overflow = ''
+  })
+
+  it('shares the scroll lock with other components', () => {
+    function Lock({ active }: { active: boolean }) {
+      useScrollLock(active)
+      return null
+    }
+    const { rerender, unmount } = render(<Lock active />)
+    expect(document.body.style.overflow).toBe('hidden')
+    rerender(<Lock active={false} />)
+    expect(document.body.style.overflow).toBe('')
+    unmount()
+  })
+
+  it('cleans up when an overlay unmounts mid-stack', () => {
+    function App({ showSettings }: { showSettings: boolean }) {
+      return <>{showSettings && <Modal name="settings" />}<Modal name="confirm" /><Modal name="drawer" /><Topmost /></>
+    }
+
+    const { rerender } = render(<App showSettings />)
+    openNoun('drawer')
+    openNoun('settings')
+    openNoun('confirm')
+    expect(screen.getByTestId('confirm').textContent).toBe('3 true')
+
+    rerender(<App showSettings={false} />)
+    expect(screen.getByTestId('drawer').textContent).toBe('1 false')
+    expect(screen.getByTestId('confirm').textContent).toBe('2 true')
+    expect(globalNouns.getOverlays()).toEqual(['ui:drawer', 'ui:confirm'])
+  })
+
+  it('keeps a noun stacked while another component still flags it', () => {
+    const { unmount } = render(<Modal name="settings" />)
+    render(<Modal name="settings" />)
+    openNoun('settings')
+    unmount()
+    expect(globalNouns.getOverlays()).toEqual(['ui:settings'])
+  })
+
+  it('tracks changes made in a batch', () => {
+    renderStack()
+    act(() => batch(() => {
+      open(globalNouns.get('ui:drawer'))
+      open(globalNouns.get('ui:confirm'))
+    }))
+    expect(globalNouns.getOverlays()).toEqual(['ui:drawer', 'ui:confirm'])
+  })
+
+  it('only works for namespaced nouns', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+    function Local() {
+      const { modal } = useToggles()
+      useOverlay(modal)
+      return null
+    }
+    expect(() => render(<Local />)).toThrow('Toggle "modal" not found in global nouns')
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,159 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, toggle, close, globalNouns, localStorageAdapter, sessionStorageAdapter, type PersistenceAdapter } from '../index'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const memoryAdapter = (initial: Record<string, string> = {}): PersistenceAdapter & { data: Record<string, string> } => {
+  const data = { ...initial }
+  return {
+    data,
+    getItem: key => data[key] ?? null,
+    setItem: (key, value) => { data[key] = value },
+    removeItem: key => { delete data[key] }
+  }
+}
+
+describe('Persistence', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+    window.localStorage.clear()
+    window.sessionStorage.clear()
+  })
+
+  function Sidebar() {
+    const { sidebar } = useToggles('settings', true)
+    return (
+      <>
+        <span data-testid="sidebar">{sidebar.isExpanded ? 'expanded' : 'collapsed'}</span>
+        <button onClick={() => toggle(sidebar)}>Toggle</button>
+      </>
+    )
+  }
+
+  it('restores namespaced nouns from localStorage after a reload', async () => {
+    globalNouns.persist('settings', { adapter: localStorageAdapter })
+    const { unmount } = render(<Sidebar />)
+    expect(screen.getByTestId('sidebar').textContent).toBe('expanded')
+
+    await userEvent.click(screen.getByText('Toggle'))
+    expect(screen.getByTestId('sidebar').textContent).toBe('collapsed')
+    unmount()
+
+    // simulate a reload - fresh in-memory state, same storage
+    globalNouns.clear()
+    globalNouns.persist('settings', { adapter: localStorageAdapter })
+    render(<Sidebar />)
+    expect(screen.getByTestId('sidebar').textContent).toBe('collapsed')
+  })
+
+  it('supports sessionStorage and custom adapters', async () => {
+    const adapter = memoryAdapter()
+    globalNouns.persist('settings', { adapter, key: 'app-settings' })
+    globalNouns.persist('session', { adapter: sessionStorageAdapter })
+
+    close(globalNouns.get('settings:sidebar', true))
+    close(globalNouns.get('session:banner', true))
+
+    expect(JSON.parse(adapter.data['app-settings']).values.sidebar.value).toBe(false)
+    expect(JSON.parse(window.sessionStorage.getItem('toggles:session')!).values.banner.value).toBe(false)
+  })
+
+  it('only persists namespaces that opted in', () => {
+    const adapter = memoryAdapter()
+    globalNouns.persist('settings', { adapter })
+
+    toggle(globalNouns.get('other:panel'))
+    expect(Object.keys(adapter.data)).toEqual([])
+  })
+
+  it('updates nouns that already exist when persistence is enabled', () => {
+    const adapter = memoryAdapter({
+      'toggles:settings': JSON.stringify({ version: 0, values: { sidebar: { value: false, savedAt: Date.now() } } })
+    })
+    render(<Sidebar />)
+    expect(screen.getByTestId('sidebar').textContent).toBe('expanded')
+
+    act(() => { globalNouns.persist('settings', { adapter }) })
+    expect(screen.getByTestId('sidebar').textContent).toBe('collapsed')
+  })
+
+  it('runs migrations up to the current version', () => {
+    const adapter = memoryAdapter({
+      'toggles:settings': JSON.stringify({ version: 1, values: { nav: { value: false, savedAt: Date.now() } } })
+    })
+    globalNouns.persist('settings', {
+      adapter,
+      version: 3,
+      migrations: {
+        2: ({ nav, ...rest }) => ({ ...rest, sidebar: nav }),
+        3: values => ({ ...values, banner: true })
+      }
+    })
+
+    expect(globalNouns.get('settings:sidebar', true).isOpen).toBe(false)
+    expect(globalNouns.get('settings:banner', false).isOpen).toBe(true)
+    expect(JSON.parse(adapter.data['toggles:settings']).version).toBe(3)
+  })
+
+  it('drops values written by a newer schema version', () => {
+    const adapter = memoryAdapter({
+      'toggles:settings': JSON.stringify({ version: 5, values: { sidebar: { value: false, savedAt: Date.now() } } })
+    })
+    globalNouns.persist('settings', { adapter, version: 2 })
+
+    expect(globalNouns.get('settings:sidebar', true).isOpen).toBe(true)
+    expect(adapter.data['toggles:settings']).toBeUndefined()
+  })
+
+  it('forgets values once they expire', () => {
+    const adapter = memoryAdapter({
+      'toggles:banners': JSON.stringify({
+        version: 0,
+        values: {
+          promo: { value: false, savedAt: Date.now() - 8 * DAY },
+          cookies: { value: false, savedAt: Date.now() - 2 * DAY }
+        }
+      })
+    })
+    globalNouns.persist('banners', { adapter, expiresIn: 7 * DAY })
+
+    expect(globalNouns.get('banners:promo', true).isShown).toBe(true)
+    expect(globalNouns.get('banners:cookies', true).isShown).toBe(false)
+    expect(JSON.parse(adapter.data['toggles:banners']).values.promo).toBeUndefined()
+  })
+
+  it('ignores malformed stored data', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    globalNouns.persist('settings', { adapter: memoryAdapter({ 'toggles:settings': '{not json' }) })
+
+    expect(globalNouns.get('settings:sidebar', true).isOpen).toBe(true)
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('malformed persisted toggles'))
+    consoleSpy.mockRestore()
+  })
+
+  it('ignores stored records and entries with the wrong shape', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+    const broken = memoryAdapter({ 'toggles:settings': JSON.stringify({ version: 0, values: null }) })
+    expect(() => globalNouns.persist('settings', { adapter: broken })).not.toThrow()
+    expect(globalNouns.get('settings:sidebar', true).isOpen).toBe(true)
+
+    const adapter = memoryAdapter({
+      'toggles:banners': JSON.stringify({
+        version: 0,
+        values: { promo: null, cookies: { value: 'no', savedAt: 0 }, survey: { value: false, savedAt: Date.now() } }
+      })
+    })
+    globalNouns.persist('banners', { adapter })
+    expect(globalNouns.get('banners:promo', true).isShown).toBe(true)
+    expect(globalNouns.get('banners:cookies', true).isShown).toBe(true)
+    expect(globalNouns.get('banners:survey', true).isShown).toBe(false)
+    expect(consoleSpy).toHaveBeenCalledTimes(2)
+
+    // writing replaces the bad entries instead of failing on them
+    expect(() => close(globalNouns.get('banners:promo'))).not.toThrow()
+    expect(Object.keys(JSON.parse(adapter.data['toggles:banners']).values)).toEqual(['survey', 'promo'])
+    consoleSpy.mockRestore()
+  })
+})
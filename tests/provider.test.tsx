@@ -0,0 +1,72 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, toggle, globalNouns, createToggleStore, TogglesProvider } from '../index'
+
+describe('TogglesProvider', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Menu({ label }: { label: string }) {
+    const { menu } = useToggles('app')
+    return (
+      <div>
+        <span data-testid={`${label}-state`}>{menu.isOpen ? 'open' : 'closed'}</span>
+        <button onClick={() => toggle(menu)}>Toggle {label}</button>
+      </div>
+    )
+  }
+
+  it('isolates namespaced toggles between stores', async () => {
+    const storeA = createToggleStore()
+    const storeB = createToggleStore()
+
+    render(
+      <>
+        <TogglesProvider store={storeA}><Menu label="a" /></TogglesProvider>
+        <TogglesProvider store={storeB}><Menu label="b" /></TogglesProvider>
+      </>
+    )
+
+    await userEvent.click(screen.getByText('Toggle a'))
+    expect(screen.getByTestId('a-state').textContent).toBe('open')
+    expect(screen.getByTestId('b-state').textContent).toBe('closed')
+    expect(storeA.get('app:menu').isOpen).toBe(true)
+    expect(globalNouns.has('app:menu')).toBe(false)
+  })
+
+  it('shares state between components under the same provider', async () => {
+    const store = createToggleStore()
+
+    render(
+      <TogglesProvider store={store}>
+        <Menu label="first" />
+        <Menu label="second" />
+      </TogglesProvider>
+    )
+
+    await userEvent.click(screen.getByText('Toggle first'))
+    expect(screen.getByTestId('first-state').textContent).toBe('open')
+    expect(screen.getByTestId('second-state').textContent).toBe('open')
+  })
+
+  it('falls back to the default store without a provider', async () => {
+    render(<Menu label="default" />)
+
+    await userEvent.click(screen.getByText('Toggle default'))
+    expect(globalNouns.get('app:menu').isOpen).toBe(true)
+  })
+
+  it('releases nouns from the previous store when the store changes', () => {
+    const storeA = createToggleStore()
+    const storeB = createToggleStore()
+
+    const { rerender } = render(<TogglesProvider store={storeA}><Menu label="a" /></TogglesProvider>)
+    expect((storeA as any).toggles.get('app:menu').refCount).toBe(1)
+
+    rerender(<TogglesProvider store={storeB}><Menu label="a" /></TogglesProvider>)
+    expect((storeA as any).toggles.get('app:menu').refCount).toBe(0)
+    expect((storeB as any).toggles.get('app:menu').refCount).toBe(1)
+  })
+})
@@ -0,0 +1,86 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import { useToggles, globalNouns, createToggleStore, GlobalNounStore, TogglesProvider } from '../index'
+
+const { renderToString } = require('react-dom/server.node')
+
+describe('Server-side rendering', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  function Layout() {
+    const { sidebar } = useToggles('ui')
+    return <aside data-testid="sidebar">{sidebar.isOpen ? 'open' : 'closed'}</aside>
+  }
+
+  it('renders the server HTML and hydrated client with the same state', () => {
+    // server: per-request store seeded from a cookie
+    const serverStore = createToggleStore({ server: true })
+    serverStore.hydrate({ 'ui:sidebar': true })
+    const html = renderToString(<TogglesProvider store={serverStore}><Layout /></TogglesProvider>)
+    const payload = serverStore.serialize()
+    expect(html).toContain('open')
+
+    // client: hydrate the store before hydrating the markup
+    const consoleSpy = jest.spyOn(console, 'error')
+    const container = document.createElement('div')
+    container.innerHTML = html
+    document.body.appendChild(container)
+
+    const clientStore = createToggleStore()
+    clientStore.hydrate(payload)
+    render(<TogglesProvider store={clientStore}><Layout /></TogglesProvider>, { container, hydrate: true })
+    expect(screen.getByTestId('sidebar').textContent).toBe('open')
+    expect(consoleSpy).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+    clientStore.destroy()
+  })
+
+  it('snapshots the current state of every noun', () => {
+    const store = createToggleStore({ server: true })
+    store.get('ui:sidebar', true)
+    store.get('ui:modal')
+    expect(store.snapshot()).toEqual({ 'ui:sidebar': true, 'ui:modal': false })
+  })
+
+  it('escapes markup in the serialized snapshot', () => {
+    const store = createToggleStore({ server: true })
+    store.get('</script><script>alert(1)</script>:noun')
+    expect(store.serialize()).not.toContain('</script>')
+    expect(JSON.parse(store.serialize())).toEqual({ '</script><script>alert(1)</script>:noun': false })
+  })
+
+  it('lets hydrated values win over initial values without conflict errors', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => { })
+    globalNouns.hydrate({ 'ui:sidebar': false })
+
+    expect(globalNouns.get('ui:sidebar', true).isOpen).toBe(false)
+    expect(globalNouns.get('ui:sidebar', true).isOpen).toBe(false)
+    expect(consoleSpy).not.toHaveBeenCalled()
+
+    // the first requested initial value is still checked against later ones
+    globalNouns.get('ui:sidebar', false)
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('initialized with conflicting values'))
+    consoleSpy.mockRestore()
+  })
+
+  it('updates nouns that already exist', () => {
+    const noun = globalNouns.get('ui:sidebar')
+    globalNouns.hydrate({ 'ui:sidebar': true, 'ui:ignored': 'yes' as any })
+    expect(noun.isOpen).toBe(true)
+    expect(globalNouns.has('ui:ignored')).toBe(false)
+  })
+
+  it('does not start the cleanup timer in server mode', () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval')
+
+    const store = new GlobalNounStore({ server: true })
+    store.clear()
+    expect(setIntervalSpy).not.toHaveBeenCalled()
+
+    createToggleStore().destroy()
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1)
+    setIntervalSpy.mockRestore()
+  })
+})
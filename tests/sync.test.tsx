@@ -0,0 +1,153 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, open, close, toggle, globalNouns, GlobalNounStore } from '../index'
+
+// in-memory BroadcastChannel - delivers to every other channel with the same name, like the real one
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  constructor(public name: string) { FakeBroadcastChannel.channels.push(this) }
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => channel.onmessage?.({ data: JSON.parse(JSON.stringify(data)) }))
+  }
+  close() { FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this) }
+}
+
+describe('Cross-tab synchronization', () => {
+  let otherTab: GlobalNounStore
+
+  beforeEach(() => {
+    globalNouns.clear()
+    otherTab = new GlobalNounStore()
+  })
+
+  afterEach(() => {
+    otherTab.destroy()
+    delete (globalThis as any).BroadcastChannel
+    FakeBroadcastChannel.channels = []
+  })
+
+  describe('with BroadcastChannel', () => {
+    beforeEach(() => {
+      (globalThis as any).BroadcastChannel = FakeBroadcastChannel
+    })
+
+    it('rerenders components when another tab changes a noun', async () => {
+      globalNouns.sync()
+      otherTab.sync()
+
+      function Panel() {
+        const { panel } = useToggles('ui')
+        return <span data-testid="panel">{panel.isOpen ? 'open' : 'closed'}</span>
+      }
+
+      render(<Panel />)
+      const remotePanel = otherTab.get('ui:panel')
+      expect(screen.getByTestId('panel').textContent).toBe('closed')
+
+      act(() => open(remotePanel))
+      expect(screen.getByTestId('panel').textContent).toBe('open')
+
+      act(() => close(remotePanel))
+      expect(screen.getByTestId('panel').textContent).toBe('closed')
+    })
+
+    it('sends local changes to other tabs', async () => {
+      globalNouns.sync()
+      otherTab.sync()
+      const remote = otherTab.get('settings:notifications', true)
+
+      function Settings() {
+        const { notifications } = useToggles('settings', true)
+        return <button onClick={() => toggle(notifications)}>Toggle</button>
+      }
+
+      render(<Settings />)
+      await userEvent.click(screen.getByText('Toggle'))
+      expect(remote.isOn).toBe(false)
+    })
+
+    it('does not echo received changes back', () => {
+      globalNouns.sync()
+      otherTab.sync()
+      const local = globalNouns.get('ui:panel')
+      otherTab.get('ui:panel')
+
+      const postSpy = jest.spyOn(FakeBroadcastChannel.prototype, 'postMessage')
+      open(local)
+      expect(postSpy).toHaveBeenCalledTimes(1)
+      postSpy.mockRestore()
+    })
+
+    it('only syncs the chosen namespaces', () => {
+      globalNouns.sync({ namespaces: ['ui'] })
+      otherTab.sync({ namespaces: namespace => namespace !== 'private' })
+
+      const local = { panel: globalNouns.get('ui:panel'), secret: globalNouns.get('private:secret') }
+      const remote = { panel: otherTab.get('ui:panel'), secret: otherTab.get('private:secret') }
+
+      open(remote.panel)
+      open(remote.secret)
+      expect(local.panel.isOpen).toBe(true)
+      expect(local.secret.isOpen).toBe(false)
+    })
+
+    it('drops malformed messages posted to the channel', () => {
+      globalNouns.sync()
+      const local = globalNouns.get('ui:panel')
+      const stranger = new FakeBroadcastChannel('toggles')
+
+      expect(() => {
+        stranger.postMessage(null)
+        stranger.postMessage('ui:panel')
+        stranger.postMessage({ source: 'another-tab', state: true })
+        stranger.postMessage({ source: 'another-tab', key: 'ui:panel', state: 'yes' })
+      }).not.toThrow()
+      expect(local.isOpen).toBe(false)
+      expect(globalNouns.snapshot()).toEqual({ 'ui:panel': false })
+
+      stranger.postMessage({ source: 'another-tab', key: 'ui:panel', state: true })
+      expect(local.isOpen).toBe(true)
+    })
+
+    it('keeps tabs on different channels apart and stops when asked', () => {
+      const stop = globalNouns.sync({ channel: 'app-a' })
+      otherTab.sync({ channel: 'app-b' })
+      const local = globalNouns.get('ui:panel')
+      const remote = otherTab.get('ui:panel')
+
+      open(remote)
+      expect(local.isOpen).toBe(false)
+
+      otherTab.sync({ channel: 'app-a' })
+      stop()
+      open(remote)
+      expect(local.isOpen).toBe(false)
+    })
+  })
+
+  describe('with the storage event fallback', () => {
+    it('applies changes written by another tab', () => {
+      const postSpy = jest.spyOn(window.localStorage.__proto__, 'setItem')
+      globalNouns.sync({ channel: 'toggles-sync' })
+      const local = globalNouns.get('ui:panel')
+
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', {
+          key: 'toggles-sync',
+          newValue: JSON.stringify({ source: 'another-tab', key: 'ui:panel', state: true, nonce: 1 })
+        }))
+      })
+      expect(local.isOpen).toBe(true)
+      // received changes are not written back to storage
+      expect(postSpy).not.toHaveBeenCalled()
+
+      close(local)
+      expect(postSpy).toHaveBeenCalledWith('toggles-sync', expect.stringContaining('"state":false'))
+      postSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,143 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import {
+  useToggles, useToggle, show, open, globalNouns, createToggleStore, TogglesProvider,
+  showFor, openAfter, closeAfter, toggleAfter, cancelTimer
+} from '../index'
+
+describe('Timed verbs', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('shows a toast for a while', () => {
+    function Toast() {
+      const { toast } = useToggles('ui')
+      return <span data-testid="toast">{toast.isShown ? 'shown' : 'hidden'}</span>
+    }
+    render(<Toast />)
+
+    act(() => { showFor(globalNouns.get('ui:toast'), 5000) })
+    expect(screen.getByTestId('toast').textContent).toBe('shown')
+
+    act(() => { jest.advanceTimersByTime(4999) })
+    expect(screen.getByTestId('toast').textContent).toBe('shown')
+    act(() => { jest.advanceTimersByTime(1) })
+    expect(screen.getByTestId('toast').textContent).toBe('hidden')
+  })
+
+  it('opens after a delay', () => {
+    const tooltip = globalNouns.get('ui:tooltip')
+    openAfter(tooltip, 300)
+    expect(tooltip.isOpen).toBe(false)
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(true)
+  })
+
+  it('cancels a pending timer', () => {
+    const tooltip = globalNouns.get('ui:tooltip', true)
+    const cancel = closeAfter(tooltip, 300)
+    cancel()
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(true)
+
+    closeAfter(tooltip, 300)
+    cancelTimer(tooltip)
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(true)
+  })
+
+  it('keeps one timer per noun - a new timed verb replaces the pending one', () => {
+    const tooltip = globalNouns.get('ui:tooltip')
+    const stale = openAfter(tooltip, 300)
+    // hover intent: the pointer left before the tooltip opened
+    closeAfter(tooltip, 100)
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(false)
+
+    // cancelling a replaced timer leaves the current one alone
+    toggleAfter(tooltip, 100)
+    stale()
+    jest.advanceTimersByTime(100)
+    expect(tooltip.isOpen).toBe(true)
+  })
+
+  it('cancels the pending timer when another verb is called', () => {
+    const toast = globalNouns.get('ui:toast')
+    showFor(toast, 5000)
+    // pinned open by the user
+    show(toast)
+    jest.advanceTimersByTime(5000)
+    expect(toast.isShown).toBe(true)
+  })
+
+  it('leaves other nouns alone', () => {
+    const tooltip = globalNouns.get('ui:tooltip')
+    openAfter(tooltip, 300)
+    open(globalNouns.get('ui:menu'))
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(true)
+  })
+
+  it('cleans up local timers when the component unmounts', () => {
+    let menu: any
+    function Menu() {
+      menu = useToggle(false)
+      return null
+    }
+    const { unmount } = render(<Menu />)
+    const original = menu
+    act(() => { openAfter(menu, 300) })
+    unmount()
+    jest.advanceTimersByTime(300)
+    expect(original.isOpen).toBe(false)
+  })
+
+  it('cleans up once the last component using a global noun unmounts', () => {
+    function Tooltip() {
+      const { tooltip } = useToggles('ui')
+      return <span>{String(tooltip.isOpen)}</span>
+    }
+    const { unmount } = render(<Tooltip />)
+    const tooltip = globalNouns.get('ui:tooltip')
+    act(() => { openAfter(tooltip, 300) })
+    unmount()
+    jest.advanceTimersByTime(300)
+    expect(tooltip.isOpen).toBe(false)
+  })
+
+  it('cleans up when the store entry is evicted', () => {
+    const onEvict = jest.fn()
+    const store = createToggleStore({ ttl: 1000, cleanupInterval: 1000, onEvict })
+    const toast = store.get('ui:toast')
+    const consoleSpy = jest.spyOn(console, 'warn')
+
+    openAfter(toast, 5000)
+    jest.advanceTimersByTime(5000)
+    expect(onEvict).toHaveBeenCalledWith('ui:toast', false)
+    expect(toast.isOpen).toBe(false)
+    expect(consoleSpy).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+    store.destroy()
+  })
+
+  it('cleans up when the store is cleared', () => {
+    const store = createToggleStore()
+    function Panel() {
+      const { panel } = useToggles('ui')
+      return <span>{String(panel.isOpen)}</span>
+    }
+    render(<TogglesProvider store={store}><Panel /></TogglesProvider>)
+    const panel = store.get('ui:panel')
+    openAfter(panel, 300)
+    store.clear()
+    jest.advanceTimersByTime(300)
+    expect(panel.isOpen).toBe(false)
+    store.destroy()
+  })
+})
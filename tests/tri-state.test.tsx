@@ -0,0 +1,124 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import {
+  useToggles, useTriState, useDerived, check, uncheck, toggle, batch, globalNouns,
+  setIndeterminate, triStateOf, type Noun
+} from '../index'
+
+const stateOf = (noun: Noun) => noun.isIndeterminate ? 'indeterminate' : noun.isChecked ? 'checked' : 'unchecked'
+
+describe('Tri-state nouns', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  describe('useTriState', () => {
+    let noun: Noun
+    function Checkbox({ initial }: { initial?: boolean | 'indeterminate' }) {
+      noun = useTriState(initial)
+      return <span data-testid="state">{stateOf(noun)}</span>
+    }
+
+    it('reads neither checked nor unchecked while indeterminate', () => {
+      render(<Checkbox initial="indeterminate" />)
+      expect([noun.isIndeterminate, noun.isChecked, noun.isUnchecked]).toEqual([true, false, false])
+    })
+
+    it('checks on toggle from indeterminate', () => {
+      render(<Checkbox initial="indeterminate" />)
+      act(() => { toggle(noun) })
+      expect(screen.getByTestId('state').textContent).toBe('checked')
+    })
+
+    it('leaves indeterminate with check and uncheck', () => {
+      render(<Checkbox />)
+      act(() => setIndeterminate(noun))
+      expect(screen.getByTestId('state').textContent).toBe('indeterminate')
+      act(() => { uncheck(noun) })
+      expect(screen.getByTestId('state').textContent).toBe('unchecked')
+
+      act(() => setIndeterminate(noun))
+      act(() => { check(noun) })
+      expect(screen.getByTestId('state').textContent).toBe('checked')
+    })
+
+    it('rolls back with a failed batch', () => {
+      render(<Checkbox initial="indeterminate" />)
+      act(() => {
+        try {
+          batch(() => {
+            check(noun)
+            throw new Error('nope')
+          })
+        } catch { }
+      })
+      expect(noun.isIndeterminate).toBe(true)
+    })
+  })
+
+  describe('triStateOf', () => {
+    function Permissions() {
+      const { read, write, admin } = useToggles('permissions')
+      const all = triStateOf(read, write, admin)
+      return (
+        <>
+          <span data-testid="all">{stateOf(all)}</span>
+          <button onClick={() => toggle(all)}>All</button>
+          <button onClick={() => toggle(read)}>Read</button>
+        </>
+      )
+    }
+
+    it('follows its children', async () => {
+      render(<Permissions />)
+      expect(screen.getByTestId('all').textContent).toBe('unchecked')
+
+      await userEvent.click(screen.getByText('Read'))
+      expect(screen.getByTestId('all').textContent).toBe('indeterminate')
+    })
+
+    it('checks every child on toggle from indeterminate, then unchecks them all', async () => {
+      render(<Permissions />)
+      await userEvent.click(screen.getByText('Read'))
+
+      await userEvent.click(screen.getByText('All'))
+      expect(screen.getByTestId('all').textContent).toBe('checked')
+      expect(['read', 'write', 'admin'].map(name => globalNouns.get(`permissions:${name}`).isChecked)).toEqual([true, true, true])
+
+      await userEvent.click(screen.getByText('All'))
+      expect(screen.getByTestId('all').textContent).toBe('unchecked')
+    })
+
+    it('updates its children in one batch', () => {
+      const children = ['a', 'b'].map(name => globalNouns.get(`list:${name}`))
+      const subscriber = jest.fn()
+      globalNouns.subscribe('list:a', subscriber)
+      globalNouns.subscribe('list:b', subscriber)
+
+      check(triStateOf(...children))
+      expect(subscriber).toHaveBeenCalledTimes(1)
+    })
+
+    it('can be followed from another component', () => {
+      const children = ['a', 'b'].map(name => globalNouns.get(`list:${name}`))
+      const all = triStateOf(...children)
+      function Header() {
+        return <span data-testid="all">{stateOf(useDerived(all))}</span>
+      }
+
+      render(<Header />)
+      act(() => { check(children[0]) })
+      expect(screen.getByTestId('all').textContent).toBe('indeterminate')
+    })
+
+    it('cannot be made indeterminate directly', () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => { })
+      setIndeterminate(triStateOf(globalNouns.get('list:a')))
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Cannot make noun triStateOf(list:a) indeterminate: only tri-state nouns with their own state can be'
+      )
+      consoleSpy.mockRestore()
+    })
+  })
+})
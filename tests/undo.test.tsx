@@ -0,0 +1,151 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, useToggleHistory, show, hide, open, close, batch, globalNouns } from '../index'
+
+const nextTick = () => act(async () => { await Promise.resolve() })
+
+describe('Undo/redo history', () => {
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  it('undoes and redoes changes to a namespace', async () => {
+    const history = globalNouns.history('layout')
+    const sidebar = globalNouns.get('layout:sidebar')
+
+    expect(history.canUndo).toBe(false)
+    show(sidebar)
+    await nextTick()
+    hide(sidebar)
+    await nextTick()
+
+    history.undo()
+    expect(sidebar.isShown).toBe(true)
+    history.undo()
+    expect(sidebar.isShown).toBe(false)
+    expect([history.canUndo, history.canRedo]).toEqual([false, true])
+
+    history.redo()
+    expect(sidebar.isShown).toBe(true)
+  })
+
+  it('coalesces changes made in the same tick into one step', async () => {
+    const history = globalNouns.history('layout')
+    const sidebar = globalNouns.get('layout:sidebar')
+    const inspector = globalNouns.get('layout:inspector', true)
+
+    show(sidebar)
+    hide(inspector)
+    await nextTick()
+
+    history.undo()
+    expect([sidebar.isShown, inspector.isShown]).toEqual([false, true])
+    expect(history.canUndo).toBe(false)
+  })
+
+  it('forgets the oldest steps past the limit', async () => {
+    const history = globalNouns.history('layout', { limit: 2 })
+    const sidebar = globalNouns.get('layout:sidebar')
+
+    for (let i = 0; i < 3; i++) {
+      open(sidebar)
+      await nextTick()
+      close(sidebar)
+      await nextTick()
+    }
+    history.undo()
+    history.undo()
+    expect(history.canUndo).toBe(false)
+    expect(sidebar.isOpen).toBe(false)
+  })
+
+  it('drops the redo stack on a new change', async () => {
+    const history = globalNouns.history('layout')
+    const sidebar = globalNouns.get('layout:sidebar')
+
+    open(sidebar)
+    await nextTick()
+    history.undo()
+    open(globalNouns.get('layout:inspector'))
+    expect(history.canRedo).toBe(false)
+  })
+
+  it('ignores other namespaces', () => {
+    const history = globalNouns.history('layout')
+    open(globalNouns.get('ui:modal'))
+    expect(history.canUndo).toBe(false)
+  })
+
+  it('does not record verbs that leave the noun as it was', async () => {
+    const history = globalNouns.history('layout')
+    const panel = globalNouns.get('layout:panel', true)
+    const sidebar = globalNouns.get('layout:sidebar')
+    const changes = jest.fn()
+    const stop = globalNouns.onChange(changes)
+
+    open(panel)
+    show(panel)
+    await nextTick()
+    hide(sidebar)
+    expect(history.canUndo).toBe(false)
+    expect(changes).not.toHaveBeenCalled()
+    stop()
+  })
+
+  it('undoes a batch as one step and notifies subscribers once', async () => {
+    const history = globalNouns.history('layout')
+    const sidebar = globalNouns.get('layout:sidebar')
+    const inspector = globalNouns.get('layout:inspector')
+    batch(() => {
+      open(sidebar)
+      open(inspector)
+    })
+    await nextTick()
+
+    const subscriber = jest.fn()
+    globalNouns.subscribe('layout:sidebar', subscriber)
+    globalNouns.subscribe('layout:inspector', subscriber)
+    history.undo()
+    expect(subscriber).toHaveBeenCalledTimes(1)
+    expect([sidebar.isOpen, inspector.isOpen]).toEqual([false, false])
+  })
+
+  it('exposes the history as a hook', async () => {
+    function Editor() {
+      const { sidebar } = useToggles('layout')
+      const { undo, redo, canUndo, canRedo } = useToggleHistory('layout')
+      return (
+        <>
+          <span data-testid="sidebar">{sidebar.isShown ? 'shown' : 'hidden'}</span>
+          <button onClick={() => show(sidebar)}>Show</button>
+          <button disabled={!canUndo} onClick={undo}>Undo</button>
+          <button disabled={!canRedo} onClick={redo}>Redo</button>
+        </>
+      )
+    }
+
+    render(<Editor />)
+    const button = (text: string) => screen.getByText(text) as HTMLButtonElement
+    expect(button('Undo').disabled).toBe(true)
+
+    await userEvent.click(button('Show'))
+    expect(button('Undo').disabled).toBe(false)
+
+    await userEvent.click(button('Undo'))
+    expect(screen.getByTestId('sidebar').textContent).toBe('hidden')
+    expect(button('Redo').disabled).toBe(false)
+
+    // the same history is available imperatively, e.g. for a Ctrl+Z handler
+    act(() => globalNouns.history('layout').redo())
+    expect(screen.getByTestId('sidebar').textContent).toBe('shown')
+  })
+
+  it('stops recording once stopped', () => {
+    const history = globalNouns.history('layout')
+    history.stop()
+    open(globalNouns.get('layout:sidebar'))
+    expect(history.canUndo).toBe(false)
+    expect(globalNouns.history('layout')).not.toBe(history)
+  })
+})
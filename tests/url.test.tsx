@@ -0,0 +1,144 @@
+import React from 'react'
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useToggles, open, close, toggle, globalNouns, syncToggleParams, createMemoryLocation } from '../index'
+
+describe('URL sync', () => {
+  const stops: (() => void)[] = []
+  const sync = (options: Parameters<typeof syncToggleParams>[0]) => {
+    stops.push(syncToggleParams(options))
+  }
+
+  beforeEach(() => {
+    globalNouns.clear()
+  })
+
+  afterEach(() => {
+    stops.splice(0).forEach(stop => stop())
+  })
+
+  function Filters() {
+    const { filters } = useToggles('ui')
+    return (
+      <>
+        <span data-testid="filters">{filters.isOpen ? 'open' : 'closed'}</span>
+        <button onClick={() => toggle(filters)}>Filters</button>
+      </>
+    )
+  }
+
+  it('opens nouns named in the query string', () => {
+    const location = createMemoryLocation('?ui.filters=1')
+    sync({ nouns: ['ui:filters'], location })
+
+    render(<Filters />)
+    expect(screen.getByTestId('filters').textContent).toBe('open')
+  })
+
+  it('writes changes back to the query string', async () => {
+    const location = createMemoryLocation('?page=2')
+    sync({ nouns: ['ui:filters'], location })
+    render(<Filters />)
+
+    await userEvent.click(screen.getByText('Filters'))
+    expect(location.getSearch()).toBe('?page=2&ui.filters=1')
+
+    // back at its starting value the param is dropped again
+    await userEvent.click(screen.getByText('Filters'))
+    expect(location.getSearch()).toBe('?page=2')
+    // replace mode does not add history entries
+    expect(location.entries).toHaveLength(1)
+  })
+
+  it('supports custom param names', () => {
+    const location = createMemoryLocation('?filters=true')
+    sync({ nouns: ['ui:filters', 'ui:help'], params: { 'ui:filters': 'filters', 'ui:help': 'help' }, location })
+
+    expect(globalNouns.get('ui:filters').isOpen).toBe(true)
+    open(globalNouns.get('ui:help'))
+    expect(location.getSearch()).toBe('?filters=true&help=1')
+  })
+
+  it('writes 0 for nouns that start active', () => {
+    const location = createMemoryLocation()
+    globalNouns.get('ui:sidebar', true)
+    sync({ nouns: ['ui:sidebar'], location })
+
+    close(globalNouns.get('ui:sidebar'))
+    expect(location.getSearch()).toBe('?ui.sidebar=0')
+  })
+
+  it('leaves nouns missing from the URL to their component', () => {
+    const location = createMemoryLocation()
+    sync({ nouns: ['ui:sidebar'], location })
+    expect(globalNouns.has('ui:sidebar')).toBe(false)
+
+    function Sidebar() {
+      const { sidebar } = useToggles('ui', true)
+      return <button onClick={() => toggle(sidebar)}>{sidebar.isOpen ? 'open' : 'closed'}</button>
+    }
+
+    render(<Sidebar />)
+    expect(screen.getByRole('button').textContent).toBe('open')
+
+    // the initial value the component gave is what stays out of the URL
+    act(() => close(globalNouns.get('ui:sidebar')))
+    expect(location.getSearch()).toBe('?ui.sidebar=0')
+    act(() => open(globalNouns.get('ui:sidebar')))
+    expect(location.getSearch()).toBe('')
+  })
+
+  it('takes the default from the caller when given', () => {
+    const location = createMemoryLocation()
+    sync({ nouns: ['ui:sidebar'], defaults: { 'ui:sidebar': true }, location })
+
+    open(globalNouns.get('ui:sidebar'))
+    expect(location.getSearch()).toBe('')
+    close(globalNouns.get('ui:sidebar'))
+    expect(location.getSearch()).toBe('?ui.sidebar=0')
+  })
+
+  it('pushes history entries and follows back and forward', async () => {
+    const location = createMemoryLocation()
+    sync({ nouns: ['ui:filters'], location, history: 'push' })
+    render(<Filters />)
+
+    await userEvent.click(screen.getByText('Filters'))
+    expect(location.entries).toEqual(['', '?ui.filters=1'])
+
+    act(() => location.go(-1))
+    expect(screen.getByTestId('filters').textContent).toBe('closed')
+    // following the URL does not write it again
+    expect(location.entries).toEqual(['', '?ui.filters=1'])
+
+    act(() => location.go(1))
+    expect(screen.getByTestId('filters').textContent).toBe('open')
+  })
+
+  it('leaves unlisted nouns and params alone', () => {
+    const location = createMemoryLocation('?ui.modal=1')
+    sync({ nouns: ['ui:filters'], location })
+
+    open(globalNouns.get('ui:other'))
+    expect(globalNouns.get('ui:modal').isOpen).toBe(false)
+    expect(location.getSearch()).toBe('?ui.modal=1')
+  })
+
+  it('stops syncing once stopped', () => {
+    const location = createMemoryLocation()
+    const stop = syncToggleParams({ nouns: ['ui:filters'], location })
+    stop()
+
+    open(globalNouns.get('ui:filters'))
+    expect(location.getSearch()).toBe('')
+  })
+
+  it('works with the browser location by default', () => {
+    window.history.replaceState(null, '', '/search?q=shoes')
+    sync({ nouns: ['ui:filters'] })
+
+    open(globalNouns.get('ui:filters'))
+    expect(window.location.pathname + window.location.search).toBe('/search?q=shoes&ui.filters=1')
+    window.history.replaceState(null, '', '/')
+  })
+})